@@ -8,7 +8,12 @@ export enum CustomSortGroupType {
 	ExactSuffix,
 	ExactHeadAndTail, // Like W...n or Un...ed, which is shorter variant of typing the entire title
 	HasMetadataField,  // Notes (or folder's notes) containing a specific metadata field
-	StarredOnly
+	StarredOnly,
+	Regexp,  // Full user-defined regular expression, like /re: ^Q(\d)-(\w+)$
+	HasTag,  // Notes (or folder's notes) tagged with a specific tag, in frontmatter or inline
+	Compound, // AND / OR / NOT composition of other criteria, like starred: AND Draft ...
+	TimeWindow,  // Items modified (or created) recently, like modified-within: 7d
+	Bookmarked  // Items bookmarked via the Bookmarks core plugin, optionally within a bookmarks group
 }
 
 export enum CustomSortOrder {
@@ -28,14 +33,118 @@ export enum CustomSortOrder {
 	byMetadataFieldTrueAlphabetical,
 	byMetadataFieldAlphabeticalReverse,
 	byMetadataFieldTrueAlphabeticalReverse,
+	byMetadataFieldEnumeration,   // in the order of explicitly enumerated values, like 'by-metadata: status in (inbox, doing, done)'
+	byMetadataFieldEnumerationReverse,
+	byBacklinks,      // Less linked to more linked
+	byBacklinksAdvanced,
+	byBacklinksReverse,   // Most linked first
+	byBacklinksReverseAdvanced,
+	byOutlinks,       // Fewer outgoing links to more outgoing links
+	byOutlinksAdvanced,
+	byOutlinksReverse,
+	byOutlinksReverseAdvanced,
+	bySize,           // Smallest first
+	bySizeAdvanced,
+	bySizeReverse,    // Biggest first
+	bySizeReverseAdvanced,
+	byItemsCount,     // Folders with fewest items first
+	byItemsCountReverse,
+	byTitle,          // by the title of a note (first heading, title property or alias), falling back to the name
+	byTitleReverse,
+	byFolderNoteLinks,    // in the order of links in the folder note, e.g. a Map of Content
+	byFolderNoteLinksReverse,
+	byLastOpened,     // Least recently opened first, never opened go first
+	byLastOpenedReverse,  // Most recently opened first
+	byOpenCount,      // Least frequently opened first
+	byOpenCountReverse,   // Most frequently opened first
+	byBookmarks,      // in the order of bookmarks in the Bookmarks core plugin, not bookmarked go last
+	byBookmarksReverse,
 	standardObsidian,  // Let the folder sorting be in hands of Obsidian, whatever user selected in the UI
 	default = alphabetical
 }
 
+export enum MetadataValueType {
+	Text = 1,  // = 1 to allow: if (valueType) { ...
+	Number,
+	Date
+}
+
+export interface MetadataValuesEnumeration {
+	values: Array<string>       // in the desired order, matched case-insensitive
+	unknownValuesIdx: number    // the position of not enumerated values, values.length if they go after all enumerated
+}
+
+export enum MetadataValueOperator {
+	Equal = 1,
+	NotEqual,
+	In,
+	NotIn,
+	Less,
+	LessOrEqual,
+	Greater,
+	GreaterOrEqual,
+	Matches     // regular expression
+}
+
+export interface MetadataValueCondition {
+	operator: MetadataValueOperator
+	values?: Array<string>      // for equality and list membership, compared case-insensitive
+	number?: number             // for numeric comparisons
+	regex?: RegExp              // for Matches
+}
+
+export enum TitleSourceType {
+	FirstHeading = 1,   // the first level 1 heading of a note
+	Property,           // a frontmatter property
+	FirstAlias          // the first of 'aliases' in frontmatter
+}
+
+export interface TitleSource {
+	type: TitleSourceType
+	propertyName?: string   // for Property
+}
+
+export enum TimeWindowDate {
+	Modified = 1,
+	Created
+}
+
+export interface TimeWindow {
+	date: TimeWindowDate
+	durationMs?: number     // a rolling window, e.g. 7d
+	today?: boolean         // since the local midnight
+}
+
+export enum GroupConditionOperator {
+	And = 1,
+	Or,
+	Not
+}
+
+// A tree of conditions. The leaves are the single criteria (prefix, metadata, starred, ...), each expressed as a sorting group
+export interface GroupCondition {
+	operator?: GroupConditionOperator   // undefined for a leaf
+	operands?: Array<GroupCondition>    // exactly one for Not
+	group?: CustomSortGroup             // for a leaf
+}
+
+export interface SecondaryOrder {
+	order: CustomSortOrder
+	byMetadataField?: string     // for 'by-metadata:' sorting if the order is by metadata alphabetical or reverse
+	byMetadataFieldType?: MetadataValueType  // for 'by-metadata: ... as number' or 'as date', text if not specified
+	byMetadataFieldEnumeration?: MetadataValuesEnumeration  // for 'by-metadata: ... in (...)'
+	byTitleSources?: Array<TitleSource>  // for 'by-title: ...', the default chain of sources if not specified
+	folderDatesDepth?: number    // for 'advanced deep modified' and 'advanced deep created', the levels of subfolders taken into account
+}
+
 export interface RecognizedOrderValue {
 	order: CustomSortOrder
-	secondaryOrder?: CustomSortOrder
+	secondaryOrders?: Array<SecondaryOrder>
 	applyToMetadataField?: string
+	applyToMetadataFieldType?: MetadataValueType
+	applyToMetadataFieldEnumeration?: MetadataValuesEnumeration
+	applyToTitleSources?: Array<TitleSource>
+	applyToFolderDatesDepth?: number
 }
 
 export type NormalizerFn = (s: string) => string | null
@@ -43,6 +152,8 @@ export type NormalizerFn = (s: string) => string | null
 export interface RegExpSpec {
 	regex: RegExp
 	normalizerFn?: NormalizerFn
+	normalizerFns?: Array<NormalizerFn>  // for multiple numeric sorting symbols, one per capture group, in order
+	matchGroupIdx?: number  // which capture group feeds the sorting, 1 if not specified
 }
 
 export interface CustomSortGroup {
@@ -54,29 +165,57 @@ export interface CustomSortGroup {
 	regexSuffix?: RegExpSpec
 	order?: CustomSortOrder
 	byMetadataField?: string     // for 'by-metadata:' sorting if the order is by metadata alphabetical or reverse
-	secondaryOrder?: CustomSortOrder
+	byMetadataFieldType?: MetadataValueType  // for 'by-metadata: ... as number' or 'as date', text if not specified
+	byMetadataFieldEnumeration?: MetadataValuesEnumeration  // for 'by-metadata: ... in (...)'
+	byTitleSources?: Array<TitleSource>  // for 'by-title: ...', the default chain of sources if not specified
+	folderDatesDepth?: number    // for 'advanced deep modified' and 'advanced deep created'
+	secondaryOrders?: Array<SecondaryOrder>  // tie-breakers, each applied only if the preceding orders consider two items equal
 	filesOnly?: boolean
 	matchFilenameWithExt?: boolean
 	foldersOnly?: boolean
 	withMetadataFieldName?: string // for 'with-metadata:' grouping
+	withMetadataValueCondition?: MetadataValueCondition // for 'with-metadata: status = done' grouping
+	withTag?: string             // for 'with-tag:' grouping, lowercase and without the leading #
+	withNestedTags?: boolean     // for 'with-tag: #tag/...' grouping, the nested tags match as well
+	withBookmarksGroup?: string  // for 'bookmarked: ...' grouping, lowercase title of the bookmarks group
+	condition?: GroupCondition   // for Compound group
+	withinTimeWindow?: TimeWindow  // for 'modified-within:' and 'created-within:' grouping
+	createdFromMetadataField?: string   // for 'created-from: metadata ...', overrides the one of the spec
+	modifiedFromMetadataField?: string  // for 'modified-from: metadata ...', overrides the one of the spec
 	priority?: number
 	combineWithIdx?: number
 }
 
+// The moment of the last opening and the number of openings of a file, kept compact for persistence
+export type OpenHistoryEntry = [lastOpened: number, openCount: number]
+
+export type OpenHistory = { [path: string]: OpenHistoryEntry }
+
 export interface CustomSortSpec {
 	targetFoldersPaths: Array<string>   // For root use '/'
 	defaultOrder?: CustomSortOrder
 	byMetadataField?: string            // for 'by-metadata:' if the defaultOrder is by metadata alphabetical or reverse
+	byMetadataFieldType?: MetadataValueType
+	byMetadataFieldEnumeration?: MetadataValuesEnumeration
+	byTitleSources?: Array<TitleSource>
+	folderDatesDepth?: number
+	defaultSecondaryOrders?: Array<SecondaryOrder>
 	groups: Array<CustomSortGroup>
 	outsidersGroupIdx?: number
 	outsidersFilesGroupIdx?: number
 	outsidersFoldersGroupIdx?: number
 	itemsToHide?: Set<string>
 	priorityOrder?: Array<number>       // Indexes of groups in evaluation order
+	attachmentsNextToNotes?: boolean    // for 'attachments: next-to-notes', the embedded files follow the embedding note
+	createdFromMetadataField?: string   // for 'created-from: metadata ...', the creation date taken from frontmatter, if present
+	modifiedFromMetadataField?: string  // for 'modified-from: metadata ...', the modification date taken from frontmatter, if present
 
 		// For internal transient use
 	plugin?: Plugin                     // to hand over the access to App instance to the sorting engine
 	_mCache?: MetadataCache
+	_openHistory?: OpenHistory          // to hand over the history of opening files to the sorting engine
+	_reportedInvalidMetadataValues?: Set<string>  // the problems with metadata values already reported to the console
+	_nextTimeWindowBoundary?: number    // the earliest moment when an item leaves its time window group, reported by the recent sorting
 }
 
 export const DEFAULT_METADATA_FIELD_FOR_SORTING: string = 'sort-index-value'
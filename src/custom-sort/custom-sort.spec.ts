@@ -1,16 +1,60 @@
-import {CachedMetadata, MetadataCache, Pos, TFile, TFolder, Vault} from 'obsidian';
+import {CachedMetadata, MetadataCache, Plugin, Pos, TFile, TFolder, Vault} from 'obsidian';
 import {
+	compareTwoItems,
 	DEFAULT_FOLDER_CTIME,
 	DEFAULT_FOLDER_MTIME,
+	BookmarkedItem,
+	countBacklinks,
+	determineBookmarkRanksIfNeeded,
 	determineFolderDatesIfNeeded,
+	determineFolderNoteLinkRanksIfNeeded,
+	determineFolderSizesIfNeeded,
+	determineLinksCountsIfNeeded,
+	determineOpenHistoryIfNeeded,
 	determineSortingGroup,
+	flattenBookmarks,
+	folderSort,
 	FolderItemForSorting,
+	getBookmarkRank,
+	getFolderDatesDepth,
+	invalidateFolderDatesCache,
+	getMetadataValueRank,
+	getMetadataValueSortingKey,
+	getNoteTitle,
+	matchesMetadataValueCondition,
 	matchGroupRegex,
+	parseMetadataDate,
+	placeAttachmentsNextToNotes,
 	SorterFn,
-	Sorters
+	Sorters,
+	sortingSpecNeedsOpenHistory,
+	sortingSpecUsesMetadataDates
 } from './custom-sort';
-import {CustomSortGroupType, CustomSortOrder, CustomSortSpec, RegExpSpec} from './custom-sort-types';
-import {CompoundDashNumberNormalizerFn, CompoundDotRomanNumberNormalizerFn} from "./sorting-spec-processor";
+import {
+	CustomSortGroupType,
+	CustomSortOrder,
+	CustomSortSpec,
+	GroupConditionOperator,
+	MetadataValueCondition,
+	MetadataValueOperator,
+	MetadataValuesEnumeration,
+	MetadataValueType,
+	RegExpSpec,
+	TimeWindowDate,
+	TitleSourceType
+} from './custom-sort-types';
+import {
+	CompoundDashNumberNormalizerFn,
+	CompoundDotAlphanumericNormalizerFn,
+	CompoundDotRomanNumberNormalizerFn,
+	DateDMYNormalizerFn,
+	DecimalNumberNormalizerFn,
+	LetterCounterNormalizerFn,
+	NumberWithUnitNormalizerFn,
+	SemverNormalizerFn,
+	NumberNormalizerFn,
+	RomanNumberNormalizerFn
+} from "./sorting-spec-processor";
 import {findStarredFile_pathParam, Starred_PluginInstance} from "../utils/StarredPluginSignature";
 
 const mockTFile = (basename: string, ext: string, size?: number, ctime?: number, mtime?: number): TFile => {
@@ -289,6 +333,36 @@ describe('determineSortingGroup', () => {
 				path: 'Some parent folder/Part:123-icle.md'
 			});
 		});
+		it('should not allow overlap of head and tail, when simple regexp in head and tail', () => {
+			// given
+			const file: TFile = mockTFile('12- v1', 'md', 444, MOCK_TIMESTAMP + 555, MOCK_TIMESTAMP + 666);
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['Some parent folder'],
+				groups: [{
+					type: CustomSortGroupType.ExactHeadAndTail,
+					regexPrefix: {
+						regex: /^\d\d\-/i
+					},
+					regexSuffix: {
+						regex: /\- v\d$/i
+					}
+				}]
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 1, // This indicates the last+1 idx (no match)
+				isFolder: false,
+				sortString: "12- v1.md",
+				ctimeNewest: MOCK_TIMESTAMP + 555,
+				ctimeOldest: MOCK_TIMESTAMP + 555,
+				mtime: MOCK_TIMESTAMP + 666,
+				path: 'Some parent folder/12- v1.md'
+			});
+		});
 		it('should match head and tail, when simple regexp in head and and mixed in tail', () => {
 			// given
 			const file: TFile = mockTFile('Part:1 1-23.456-icle', 'md', 444, MOCK_TIMESTAMP + 555, MOCK_TIMESTAMP + 666);
@@ -352,6 +426,260 @@ describe('determineSortingGroup', () => {
 			});
 		});
 	})
+	describe('CustomSortGroupType.ExactPrefix with multiple numeric sorting symbols', () => {
+		it('should compose the matching group of all normalized components', () => {
+			// given
+			const file: TFile = mockTFile('Vol 2 - Chapter XI - Intro', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^Vol  *(\d+) - Chapter  *([MDCLXVI]+) /i,
+						normalizerFns: [NumberNormalizerFn, RomanNumberNormalizerFn]
+					}
+				}]
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 0,
+				isFolder: false,
+				sortString: "00000002//00000011////Vol 2 - Chapter XI - Intro.md",
+				matchGroup: '00000002//00000011//',
+				ctimeNewest: MOCK_TIMESTAMP + 222,
+				ctimeOldest: MOCK_TIMESTAMP + 222,
+				mtime: MOCK_TIMESTAMP + 333,
+				path: 'Some parent folder/Vol 2 - Chapter XI - Intro.md'
+			});
+		})
+		it('should order by the tuple of numeric components', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^Vol  *(\d+) - Chapter  *([MDCLXVI]+) /i,
+						normalizerFns: [NumberNormalizerFn, RomanNumberNormalizerFn]
+					}
+				}]
+			}
+			const names: Array<string> = [
+				'Vol 10 - Chapter I - b',
+				'Vol 2 - Chapter IX - c',
+				'Vol 2 - Chapter IV - a',
+				'Vol 1 - Chapter XX - d'
+			]
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/Vol 1 - Chapter XX - d.md',
+				'Some parent folder/Vol 2 - Chapter IV - a.md',
+				'Some parent folder/Vol 2 - Chapter IX - c.md',
+				'Some parent folder/Vol 10 - Chapter I - b.md'
+			])
+		})
+	})
+	describe('CustomSortGroupType.ExactPrefix with letter enumeration and alphanumeric sorting symbols', () => {
+		it('should order by letter enumeration', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^ *([a-z]+)\) /i,
+						normalizerFn: LetterCounterNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = ['aa) Lorem', 'b) ipsum', 'A) dolor', 'z) sit']
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/A) dolor.md',
+				'Some parent folder/b) ipsum.md',
+				'Some parent folder/z) sit.md',
+				'Some parent folder/aa) Lorem.md'
+			])
+		})
+		it('should order by compound number-letter keys', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^ *(\d+[a-z]*(?:\.[a-z0-9]+)*) /i,
+						normalizerFn: CompoundDotAlphanumericNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = ['10 Lorem', '2a.iv ipsum', '1b dolor', '2a.iii sit', '1 amet', '1a consectetur']
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/1 amet.md',
+				'Some parent folder/1a consectetur.md',
+				'Some parent folder/1b dolor.md',
+				'Some parent folder/2a.iii sit.md',
+				'Some parent folder/2a.iv ipsum.md',
+				'Some parent folder/10 Lorem.md'
+			])
+		})
+	})
+	describe('CustomSortGroupType.ExactPrefix with semver sorting symbol', () => {
+		it('should order by semantic version precedence', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^v *(\d+\.\d+\.\d+(?:-[0-9a-z-]+(?:\.[0-9a-z-]+)*)?(?:\+[0-9a-z-]+(?:\.[0-9a-z-]+)*)?) /i,
+						normalizerFn: SemverNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = [
+				'v1.10.0 notes',
+				'v1.9.3 notes',
+				'v1.9.3-beta.11 notes',
+				'v1.9.3-beta.2 notes',
+				'v1.9.3-beta notes',
+				'v1.9.3-alpha.1 notes',
+				'v1.9.3-rc.1 notes',
+				'v1.9.3-rc2 notes',
+				'v1.9.3-rc10 notes',
+				'v1.2.0 notes'
+			]
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/v1.2.0 notes.md',
+				'Some parent folder/v1.9.3-alpha.1 notes.md',
+				'Some parent folder/v1.9.3-beta notes.md',
+				'Some parent folder/v1.9.3-beta.2 notes.md',
+				'Some parent folder/v1.9.3-beta.11 notes.md',
+				'Some parent folder/v1.9.3-rc.1 notes.md',
+				'Some parent folder/v1.9.3-rc10 notes.md',  // alphanumeric identifiers are compared in ASCII order
+				'Some parent folder/v1.9.3-rc2 notes.md',
+				'Some parent folder/v1.9.3 notes.md',
+				'Some parent folder/v1.10.0 notes.md'
+			])
+		})
+	})
+	describe('CustomSortGroupType.ExactPrefix with decimal and unit-suffixed number sorting symbols', () => {
+		it('should order by signed decimal numbers', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^ *([-+]?\d+(?:\.\d+)?) /i,
+						normalizerFn: DecimalNumberNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = ['2.75 Ratio', '-3 Basement', '10 Roof', '0 Ground', '-10 Parking', '2.5 Ratio']
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/-10 Parking.md',
+				'Some parent folder/-3 Basement.md',
+				'Some parent folder/0 Ground.md',
+				'Some parent folder/2.5 Ratio.md',
+				'Some parent folder/2.75 Ratio.md',
+				'Some parent folder/10 Roof.md'
+			])
+		})
+		it('should order by numbers with unit suffixes', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^ *(\d+(?:\.\d+)?(?:[kmgtp]i?b?|b)?) /i,
+						normalizerFn: NumberWithUnitNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = ['512MB Dump', '1GB Dump', '10k Dump', '900 Dump', '2.5GiB Dump']
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/900 Dump.md',
+				'Some parent folder/10k Dump.md',
+				'Some parent folder/512MB Dump.md',
+				'Some parent folder/1GB Dump.md',
+				'Some parent folder/2.5GiB Dump.md'
+			])
+		})
+	})
+	describe('CustomSortGroupType.ExactPrefix with date sorting symbol', () => {
+		it('should order chronologically by the date embedded in the name', () => {
+			// given
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					regexPrefix: {
+						regex: /^Meeting  *(\d{2}\.\d{2}\.\d{4})/i,
+						normalizerFn: DateDMYNormalizerFn
+					}
+				}]
+			}
+			const names: Array<string> = [
+				'Meeting 05.01.2023',
+				'Meeting 31.12.2022',
+				'Meeting 01.02.2023',
+				'Meeting 10.01.2023'
+			]
+
+			// when
+			const items: Array<FolderItemForSorting> = names.map((name) => determineSortingGroup(mockTFile(name, 'md'), sortSpec))
+			const sorted: Array<string> = items.sort(Sorters[CustomSortOrder.alphabetical]).map((item) => item.path)
+
+			// then
+			expect(items[0].matchGroup).toBe('20221231//')
+			expect(sorted).toEqual([
+				'Some parent folder/Meeting 31.12.2022.md',
+				'Some parent folder/Meeting 05.01.2023.md',
+				'Some parent folder/Meeting 10.01.2023.md',
+				'Some parent folder/Meeting 01.02.2023.md'
+			])
+		})
+	})
 	describe('CustomSortGroupType.ExactPrefix', () => {
 		it('should correctly recognize exact prefix', () => {
 			// given
@@ -725,29 +1053,19 @@ describe('determineSortingGroup', () => {
 			});
 		})
 	})
-	describe('CustomSortGroupType.byMetadataFieldAlphabetical', () => {
-		it('should ignore the file item if it has no direct metadata', () => {
+	describe('CustomSortGroupType.Regexp', () => {
+		it('should correctly recognize name and use the selected capture group for sorting', () => {
 			// given
-			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const file: TFile = mockTFile('Q3-Marketing', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
 			const sortSpec: CustomSortSpec = {
 				targetFoldersPaths: ['/'],
 				groups: [{
-					type: CustomSortGroupType.HasMetadataField,
-					withMetadataFieldName: "metadataField1",
-					exactPrefix: 'Ref'
-				}],
-				_mCache: {
-					getCache: function (path: string): CachedMetadata | undefined {
-						return {
-							"References": {
-								frontmatter: {
-									metadataField1InvalidField: "directMetadataOnFile",
-									position: MockedLoc
-								}
-							}
-						}[path]
+					type: CustomSortGroupType.Regexp,
+					regexPrefix: {
+						regex: /^Q(\d)-(\w+)$/,
+						matchGroupIdx: 2
 					}
-				} as MetadataCache
+				}]
 			}
 
 			// when
@@ -755,37 +1073,27 @@ describe('determineSortingGroup', () => {
 
 			// then
 			expect(result).toEqual({
-				groupIdx: 1,  // The lastIdx+1, group not determined
+				groupIdx: 0,
 				isFolder: false,
-				sortString: "References.md",
+				sortString: "Marketing//Q3-Marketing.md",
+				matchGroup: 'Marketing',
 				ctimeNewest: MOCK_TIMESTAMP + 222,
 				ctimeOldest: MOCK_TIMESTAMP + 222,
 				mtime: MOCK_TIMESTAMP + 333,
-				path: 'Some parent folder/References.md'
+				path: 'Some parent folder/Q3-Marketing.md'
 			});
 		})
-		it('should ignore the folder item if it has no metadata on folder note', () => {
+		it('should not match name not matching the regexp', () => {
 			// given
-			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const file: TFile = mockTFile('q3-Marketing', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
 			const sortSpec: CustomSortSpec = {
 				targetFoldersPaths: ['/'],
 				groups: [{
-					type: CustomSortGroupType.HasMetadataField,
-					withMetadataFieldName: "metadataField1",
-					exactPrefix: 'Ref'
-				}],
-				_mCache: {
-					getCache: function (path: string): CachedMetadata | undefined {
-						return {
-							"References": {
-								frontmatter: {
-									metadataField1: undefined,
-									position: MockedLoc
-								}
-							}
-						}[path]
+					type: CustomSortGroupType.Regexp,
+					regexPrefix: {
+						regex: /^Q(\d)-(\w+)$/
 					}
-				} as MetadataCache
+				}]
 			}
 
 			// when
@@ -793,97 +1101,476 @@ describe('determineSortingGroup', () => {
 
 			// then
 			expect(result).toEqual({
-				groupIdx: 1,  // lastIdx + 1, group not determined
+				groupIdx: 1, // This indicates the last+1 idx (no match)
 				isFolder: false,
-				sortString: "References.md",
+				sortString: "q3-Marketing.md",
 				ctimeNewest: MOCK_TIMESTAMP + 222,
 				ctimeOldest: MOCK_TIMESTAMP + 222,
 				mtime: MOCK_TIMESTAMP + 333,
-				path: 'Some parent folder/References.md'
+				path: 'Some parent folder/q3-Marketing.md'
 			});
 		})
-		it('should correctly include the File item if has direct metadata (group not sorted by metadata', () => {
+	})
+	describe('CustomSortGroupType.HasMetadataField with condition on the value', () => {
+		it('should match only the items with metadata value satisfying the condition', () => {
 			// given
-			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const files: Array<TFile> = [
+				mockTFile('Task A', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task B', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task C', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task D', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333)
+			]
 			const sortSpec: CustomSortSpec = {
 				targetFoldersPaths: ['/'],
 				groups: [{
 					type: CustomSortGroupType.HasMetadataField,
-					withMetadataFieldName: "metadataField1",
-					exactPrefix: 'Ref'
+					withMetadataFieldName: 'status',
+					withMetadataValueCondition: {operator: MetadataValueOperator.Equal, values: ['done']}
+				}, {
+					type: CustomSortGroupType.HasMetadataField,
+					withMetadataFieldName: 'priority',
+					withMetadataValueCondition: {operator: MetadataValueOperator.GreaterOrEqual, number: 3}
 				}],
 				_mCache: {
 					getCache: function (path: string): CachedMetadata | undefined {
 						return {
-							'Some parent folder/References.md': {
-								frontmatter: {
-									"metadataField1": "directMetadataOnFile",
-									position: MockedLoc
-								}
-							}
+							'Some parent folder/Task A.md': {frontmatter: {status: 'Done', priority: 5, position: MockedLoc}},
+							'Some parent folder/Task B.md': {frontmatter: {status: 'doing', priority: '3', position: MockedLoc}},
+							'Some parent folder/Task C.md': {frontmatter: {status: 'doing', priority: 2, position: MockedLoc}},
+							'Some parent folder/Task D.md': {frontmatter: {position: MockedLoc}}
 						}[path]
 					}
 				} as MetadataCache
 			}
 
 			// when
-			const result = determineSortingGroup(file, sortSpec)
+			const groupsIdxs: Array<number | undefined> = files.map((file) => determineSortingGroup(file, sortSpec).groupIdx)
 
 			// then
-			expect(result).toEqual({
-				groupIdx: 0,
-				isFolder: false,
-				sortString: "References.md",
-				ctimeNewest: MOCK_TIMESTAMP + 222,
-				ctimeOldest: MOCK_TIMESTAMP + 222,
-				mtime: MOCK_TIMESTAMP + 333,
-				path: 'Some parent folder/References.md'
-			} as FolderItemForSorting);
+			expect(groupsIdxs).toEqual([0, 1, 2, 2])
 		})
-		it('should correctly include the Folder item if it has folder note metadata (group not sorted by metadata', () => {
+	})
+	describe('CustomSortGroupType.HasTag', () => {
+		const cache: { [path: string]: CachedMetadata } = {
+			'Some parent folder/Note A.md': {frontmatter: {tags: ['Project/Active', 'inbox'], position: MockedLoc}},
+			'Some parent folder/Note B.md': {tags: [{tag: '#project/active/urgent', position: MockedLoc}]},
+			'Some parent folder/Note C.md': {frontmatter: {tags: '#project, #area', position: MockedLoc}},
+			'Some parent folder/Note D.md': {frontmatter: {tag: 'projects', position: MockedLoc}},
+			'Some parent folder/Note E.md': {},
+			'Folder F/Folder F.md': {tags: [{tag: '#Project/Active', position: MockedLoc}]}
+		}
+		const items: Array<TFile | TFolder> = [
+			mockTFile('Note A', 'md'),
+			mockTFile('Note B', 'md'),
+			mockTFile('Note C', 'md'),
+			mockTFile('Note D', 'md'),
+			mockTFile('Note E', 'md'),
+			mockTFolder('Folder F')
+		]
+		it.each([
+			['project/active', undefined, [0, 1, 1, 1, 1, 0]],
+			['project/active', true, [0, 0, 1, 1, 1, 0]],
+			['project', true, [0, 0, 0, 1, 1, 0]],
+			['project', undefined, [1, 1, 0, 1, 1, 1]],
+			['area', undefined, [1, 1, 0, 1, 1, 1]]
+		])('should match tag %s (nested: %s)', (tag: string, nested: boolean | undefined, expectedGroupsIdxs: Array<number>) => {
 			// given
-			const folder: TFolder = mockTFolder('References');
 			const sortSpec: CustomSortSpec = {
 				targetFoldersPaths: ['/'],
 				groups: [{
-					type: CustomSortGroupType.HasMetadataField,
-					withMetadataFieldName: "metadataField1",
-					exactPrefix: 'Ref'
+					type: CustomSortGroupType.HasTag,
+					withTag: tag,
+					withNestedTags: nested
 				}],
 				_mCache: {
 					getCache: function (path: string): CachedMetadata | undefined {
-						return {
-							'References/References.md': {
-								frontmatter: {
-									"metadataField1": "directMetadataOnFile",
-									position: MockedLoc
-								}
-							}
-						}[path]
+						return cache[path]
 					}
 				} as MetadataCache
 			}
 
 			// when
-			const result = determineSortingGroup(folder, sortSpec)
+			const groupsIdxs: Array<number | undefined> = items.map((item) => determineSortingGroup(item, sortSpec).groupIdx)
 
 			// then
-			expect(result).toEqual({
-				groupIdx: 0,
-				isFolder: true,
-				sortString: "References",
-				ctimeNewest: DEFAULT_FOLDER_CTIME,
-				ctimeOldest: DEFAULT_FOLDER_CTIME,
-				mtime: DEFAULT_FOLDER_MTIME,
-				path: 'References',
-				folder: folder
-			} as FolderItemForSorting);
+			expect(groupsIdxs).toEqual(expectedGroupsIdxs)
 		})
 	})
-	describe('CustomSortGroupType.StarredOnly', () => {
-		it('should not match not starred file', () => {
+	describe('CustomSortGroupType.TimeWindow', () => {
+		const HOUR: number = 60 * 60 * 1000
+		const DAY: number = 24 * HOUR
+		const now: number = new Date(2023, 5, 15, 12, 0, 0).getTime()
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.TimeWindow,
+				withinTimeWindow: {date: TimeWindowDate.Modified, today: true}
+			}, {
+				type: CustomSortGroupType.TimeWindow,
+				withinTimeWindow: {date: TimeWindowDate.Modified, durationMs: 7 * DAY}
+			}, {
+				type: CustomSortGroupType.TimeWindow,
+				withinTimeWindow: {date: TimeWindowDate.Created, durationMs: 30 * DAY}
+			}],
+			outsidersGroupIdx: 3
+		}
+		it.each([
+			['modified today', now - 20 * DAY, now - 11 * HOUR, 0, now + 12 * HOUR],
+			['modified yesterday', now - 20 * DAY, now - 13 * HOUR, 1, now - 13 * HOUR + 7 * DAY],
+			['modified a week ago', now - 20 * DAY, now - 8 * DAY, 2, now + 10 * DAY],
+			['created long ago', now - 40 * DAY, now - 8 * DAY, 3, undefined]
+		])('should put the file %s in the group', (name: string, ctime: number, mtime: number, expectedGroupIdx: number, expectedBoundary: number | undefined) => {
 			// given
-			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const file: TFile = mockTFile(name, 'md', 10, ctime, mtime)
+			const boundaries: Array<number> = []
+
+			// when
+			const result: FolderItemForSorting = determineSortingGroup(file, sortSpec, {
+				now: now,
+				reportTimeWindowBoundary: (boundary: number) => boundaries.push(boundary)
+			})
+
+			// then
+			expect(result.groupIdx).toEqual(expectedGroupIdx)
+			expect(boundaries[0]).toEqual(expectedBoundary)
+		})
+		it('should derive the modified date of a folder from its child files', () => {
+			// given
+			const folder: TFolder = mockTFolder('Folder', [
+				mockTFile('Old', 'md', 10, now - 40 * DAY, now - 40 * DAY),
+				mockTFile('Recent', 'md', 10, now - 40 * DAY, now - 2 * DAY)
+			])
+			const emptyFolder: TFolder = mockTFolder('Empty folder')
+
+			// when
+			const result: FolderItemForSorting = determineSortingGroup(folder, sortSpec, {now: now})
+			const resultForEmptyFolder: FolderItemForSorting = determineSortingGroup(emptyFolder, sortSpec, {now: now})
+
+			// then
+			expect(result.groupIdx).toEqual(1)
+			expect(resultForEmptyFolder.groupIdx).toEqual(3)
+		})
+	})
+	describe('CustomSortGroupType.Compound', () => {
+		const cache: { [path: string]: CachedMetadata } = {
+			'Some parent folder/Chapter 2 draft.md': {frontmatter: {due: '2023-12-01', position: MockedLoc}},
+			'Some parent folder/Chapter 3 final.md': {frontmatter: {archived: true, position: MockedLoc}},
+			'Some parent folder/Notes.md': {tags: [{tag: '#urgent', position: MockedLoc}]}
+		}
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				// starred: AND Chapter \d+ ...
+				type: CustomSortGroupType.Compound,
+				condition: {
+					operator: GroupConditionOperator.And,
+					operands: [
+						{group: {type: CustomSortGroupType.StarredOnly}},
+						{group: {type: CustomSortGroupType.ExactPrefix, regexPrefix: {regex: /^Chapter  *(\d+) /i, normalizerFn: NumberNormalizerFn}}}
+					]
+				}
+			}, {
+				// with-metadata: due OR with-tag: #urgent
+				type: CustomSortGroupType.Compound,
+				condition: {
+					operator: GroupConditionOperator.Or,
+					operands: [
+						{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'due'}},
+						{group: {type: CustomSortGroupType.HasTag, withTag: 'urgent'}}
+					]
+				}
+			}, {
+				// NOT with-metadata: archived
+				type: CustomSortGroupType.Compound,
+				condition: {
+					operator: GroupConditionOperator.Not,
+					operands: [{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'archived'}}]
+				}
+			}],
+			_mCache: {
+				getCache: function (path: string): CachedMetadata | undefined {
+					return cache[path]
+				}
+			} as MetadataCache
+		}
+		it.each([
+			['Chapter 10 starred', 0, '00000010//'],
+			['Chapter 2 draft', 1, undefined],
+			['Notes', 1, undefined],
+			['Chapter 3 final', 3, undefined],
+			['Starred notes', 2, undefined]
+		])('should assign %s to group %s', (basename: string, expectedGroupIdx: number, expectedMatchGroup: string | undefined) => {
+			// given
+			const file: TFile = mockTFile(basename, 'md')
+			const starredPluginInstance: Partial<Starred_PluginInstance> = {
+				findStarredFile: jest.fn(function (filePath: findStarredFile_pathParam): TFile | null {
+					return filePath.path.indexOf('starred') > 0 ? file : null
+				})
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec, {
+				starredPluginInstance: starredPluginInstance as Starred_PluginInstance
+			})
+
+			// then
+			expect(result.groupIdx).toBe(expectedGroupIdx)
+			expect(result.matchGroup).toBe(expectedMatchGroup)
+		})
+		it('should not evaluate the remaining operands once the result is known', () => {
+			// given
+			const file: TFile = mockTFile('Chapter 3 final', 'md')
+			const starredPluginInstance: Partial<Starred_PluginInstance> = {
+				findStarredFile: jest.fn(function (filePath: findStarredFile_pathParam): TFile | null {
+					return null
+				})
+			}
+			const getCache = jest.fn((path: string) => cache[path])
+			const sortSpecWithOrFirst: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					// starred: AND with-metadata: archived
+					type: CustomSortGroupType.Compound,
+					condition: {
+						operator: GroupConditionOperator.And,
+						operands: [
+							{group: {type: CustomSortGroupType.StarredOnly}},
+							{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'archived'}}
+						]
+					}
+				}, {
+					// Chapter ... OR with-metadata: archived
+					type: CustomSortGroupType.Compound,
+					condition: {
+						operator: GroupConditionOperator.Or,
+						operands: [
+							{group: {type: CustomSortGroupType.ExactPrefix, exactPrefix: 'Chapter'}},
+							{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'archived'}}
+						]
+					}
+				}],
+				_mCache: {getCache: getCache} as unknown as MetadataCache
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpecWithOrFirst, {
+				starredPluginInstance: starredPluginInstance as Starred_PluginInstance
+			})
+
+			// then
+			expect(result.groupIdx).toBe(1)
+			expect(starredPluginInstance.findStarredFile).toHaveBeenCalledTimes(1)
+			expect(getCache).not.toHaveBeenCalled()
+		})
+	})
+	describe('CustomSortGroupType.Bookmarked', () => {
+		const bookmarks: Array<BookmarkedItem> = [
+			{path: 'Some parent folder/Bookmarked.md', groups: []},
+			{path: 'Some parent folder/To read.md', groups: ['reading list']},
+			{path: 'Folder', groups: ['projects']}
+		]
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Bookmarked,
+				withBookmarksGroup: 'reading list'
+			}, {
+				type: CustomSortGroupType.Bookmarked
+			}],
+			outsidersGroupIdx: 2
+		}
+		it.each([
+			[mockTFile('To read', 'md'), 0],
+			[mockTFile('Bookmarked', 'md'), 1],
+			[mockTFolder('Folder'), 1],
+			[mockTFile('Not bookmarked', 'md'), 2]
+		])('should assign %s to group %s', (item: TFile | TFolder, expectedGroupIdx: number) => {
+			// when
+			const result = determineSortingGroup(item, sortSpec, {
+				bookmarks: bookmarks
+			})
+
+			// then
+			expect(result.groupIdx).toBe(expectedGroupIdx)
+		})
+		it('should match the starred items against bookmarks if the Starred core plugin is not available', () => {
+			// given
+			const sortSpecWithStarred: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.StarredOnly
+				}],
+				outsidersGroupIdx: 1
+			}
+
+			// when
+			const bookmarked = determineSortingGroup(mockTFile('Bookmarked', 'md'), sortSpecWithStarred, {bookmarks: bookmarks})
+			const notBookmarked = determineSortingGroup(mockTFile('Not bookmarked', 'md'), sortSpecWithStarred, {bookmarks: bookmarks})
+
+			// then
+			expect(bookmarked.groupIdx).toBe(0)
+			expect(notBookmarked.groupIdx).toBe(1)
+		})
+	})
+	describe('CustomSortGroupType.byMetadataFieldAlphabetical', () => {
+		it('should ignore the file item if it has no direct metadata', () => {
+			// given
+			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.HasMetadataField,
+					withMetadataFieldName: "metadataField1",
+					exactPrefix: 'Ref'
+				}],
+				_mCache: {
+					getCache: function (path: string): CachedMetadata | undefined {
+						return {
+							"References": {
+								frontmatter: {
+									metadataField1InvalidField: "directMetadataOnFile",
+									position: MockedLoc
+								}
+							}
+						}[path]
+					}
+				} as MetadataCache
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 1,  // The lastIdx+1, group not determined
+				isFolder: false,
+				sortString: "References.md",
+				ctimeNewest: MOCK_TIMESTAMP + 222,
+				ctimeOldest: MOCK_TIMESTAMP + 222,
+				mtime: MOCK_TIMESTAMP + 333,
+				path: 'Some parent folder/References.md'
+			});
+		})
+		it('should ignore the folder item if it has no metadata on folder note', () => {
+			// given
+			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.HasMetadataField,
+					withMetadataFieldName: "metadataField1",
+					exactPrefix: 'Ref'
+				}],
+				_mCache: {
+					getCache: function (path: string): CachedMetadata | undefined {
+						return {
+							"References": {
+								frontmatter: {
+									metadataField1: undefined,
+									position: MockedLoc
+								}
+							}
+						}[path]
+					}
+				} as MetadataCache
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 1,  // lastIdx + 1, group not determined
+				isFolder: false,
+				sortString: "References.md",
+				ctimeNewest: MOCK_TIMESTAMP + 222,
+				ctimeOldest: MOCK_TIMESTAMP + 222,
+				mtime: MOCK_TIMESTAMP + 333,
+				path: 'Some parent folder/References.md'
+			});
+		})
+		it('should correctly include the File item if has direct metadata (group not sorted by metadata', () => {
+			// given
+			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.HasMetadataField,
+					withMetadataFieldName: "metadataField1",
+					exactPrefix: 'Ref'
+				}],
+				_mCache: {
+					getCache: function (path: string): CachedMetadata | undefined {
+						return {
+							'Some parent folder/References.md': {
+								frontmatter: {
+									"metadataField1": "directMetadataOnFile",
+									position: MockedLoc
+								}
+							}
+						}[path]
+					}
+				} as MetadataCache
+			}
+
+			// when
+			const result = determineSortingGroup(file, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 0,
+				isFolder: false,
+				sortString: "References.md",
+				ctimeNewest: MOCK_TIMESTAMP + 222,
+				ctimeOldest: MOCK_TIMESTAMP + 222,
+				mtime: MOCK_TIMESTAMP + 333,
+				path: 'Some parent folder/References.md'
+			} as FolderItemForSorting);
+		})
+		it('should correctly include the Folder item if it has folder note metadata (group not sorted by metadata', () => {
+			// given
+			const folder: TFolder = mockTFolder('References');
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.HasMetadataField,
+					withMetadataFieldName: "metadataField1",
+					exactPrefix: 'Ref'
+				}],
+				_mCache: {
+					getCache: function (path: string): CachedMetadata | undefined {
+						return {
+							'References/References.md': {
+								frontmatter: {
+									"metadataField1": "directMetadataOnFile",
+									position: MockedLoc
+								}
+							}
+						}[path]
+					}
+				} as MetadataCache
+			}
+
+			// when
+			const result = determineSortingGroup(folder, sortSpec)
+
+			// then
+			expect(result).toEqual({
+				groupIdx: 0,
+				isFolder: true,
+				sortString: "References",
+				ctimeNewest: DEFAULT_FOLDER_CTIME,
+				ctimeOldest: DEFAULT_FOLDER_CTIME,
+				mtime: DEFAULT_FOLDER_MTIME,
+				path: 'References',
+				folder: folder
+			} as FolderItemForSorting);
+		})
+	})
+	describe('CustomSortGroupType.StarredOnly', () => {
+		it('should not match not starred file', () => {
+			// given
+			const file: TFile = mockTFile('References', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333);
 			const sortSpec: CustomSortSpec = {
 				targetFoldersPaths: ['/'],
 				groups: [{
@@ -1388,7 +2075,60 @@ describe('determineSortingGroup', () => {
 				metadataFieldValue: 'direct metadata on file, under default name'
 			} as FolderItemForSorting);
 		})
-	})
+		it('should convert typed metadata values and report the ones of unexpected type', () => {
+			// given
+			const files: Array<TFile> = [
+				mockTFile('Task A', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task B', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task C', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task D', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333),
+				mockTFile('Task E', 'md', 111, MOCK_TIMESTAMP + 222, MOCK_TIMESTAMP + 333)
+			]
+			const sortSpec: CustomSortSpec = {
+				targetFoldersPaths: ['/'],
+				groups: [{
+					type: CustomSortGroupType.ExactPrefix,
+					exactPrefix: 'Task',
+					order: CustomSortOrder.byMetadataFieldAlphabetical,
+					byMetadataField: 'rank',
+					byMetadataFieldType: MetadataValueType.Number,
+					secondaryOrders: [{
+						order: CustomSortOrder.byMetadataFieldAlphabetical,
+						byMetadataField: 'due',
+						byMetadataFieldType: MetadataValueType.Date
+					}]
+				}],
+				_mCache: {
+					getCache: function (path: string): CachedMetadata | undefined {
+						return {
+							'Some parent folder/Task A.md': {frontmatter: {rank: 10, due: '2023-12-01', position: MockedLoc}},
+							'Some parent folder/Task B.md': {frontmatter: {rank: -5, due: '2023-12-01T08:00', position: MockedLoc}},
+							'Some parent folder/Task C.md': {frontmatter: {rank: '1.5', due: '2023-02-30', position: MockedLoc}},
+							'Some parent folder/Task D.md': {frontmatter: {rank: true, due: '2023-11-30', position: MockedLoc}},
+							'Some parent folder/Task E.md': {frontmatter: {rank: 10, due: '2023-09-05', position: MockedLoc}}
+						}[path]
+					}
+				} as MetadataCache
+			}
+			const reportInvalidMetadataValue = jest.fn()
+
+			// when
+			const items: Array<FolderItemForSorting> = files.map((file) => determineSortingGroup(file, sortSpec, {reportInvalidMetadataValue}))
+			const sorted: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.path)
+
+			// then
+			expect(sorted).toEqual([
+				'Some parent folder/Task B.md',
+				'Some parent folder/Task C.md',
+				'Some parent folder/Task E.md',
+				'Some parent folder/Task A.md',
+				'Some parent folder/Task D.md'
+			])
+			expect(reportInvalidMetadataValue).toHaveBeenCalledTimes(2)
+			expect(reportInvalidMetadataValue).toHaveBeenCalledWith('Some parent folder/Task C.md', 'due', '2023-02-30', MetadataValueType.Date)
+			expect(reportInvalidMetadataValue).toHaveBeenCalledWith('Some parent folder/Task D.md', 'rank', true, MetadataValueType.Number)
+		})
+	})
 
 	it('should correctly apply priority group', () => {
 		// given
@@ -1589,6 +2329,935 @@ describe('determineFolderDatesIfNeeded', () => {
 	})
 })
 
+describe('determineFolderDatesIfNeeded with subfolders', () => {
+	const DEEP_TIMESTAMP: number = TIMESTAMP_NEWEST + 1000
+	const mockDeepFolder = (): TFolder => mockTFolder('Project', [
+		mockTFile('Readme', 'md', 10, TIMESTAMP_INBETWEEN, TIMESTAMP_INBETWEEN),
+		mockTFolder('Project/Drafts', [
+			mockTFolder('Project/Drafts/Ideas', [
+				mockTFile('Idea', 'md', 10, TIMESTAMP_OLDEST, DEEP_TIMESTAMP)
+			])
+		])
+	])
+	const sortSpecWithDepth = (depth?: number): CustomSortSpec => ({
+		targetFoldersPaths: ['/'],
+		groups: [{
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.byModifiedTimeReverseAdvanced,
+			folderDatesDepth: depth
+		}],
+		outsidersGroupIdx: 0
+	})
+	beforeEach(() => {
+		invalidateFolderDatesCache()
+	})
+	it.each([
+		[undefined, TIMESTAMP_INBETWEEN, TIMESTAMP_INBETWEEN],
+		[1, TIMESTAMP_INBETWEEN, TIMESTAMP_INBETWEEN],
+		[2, DEEP_TIMESTAMP, TIMESTAMP_OLDEST],
+		[Infinity, DEEP_TIMESTAMP, TIMESTAMP_OLDEST]
+	])('should take into account the subfolders up to the depth %s', (depth: number | undefined, mtime: number, ctimeOldest: number) => {
+		// given
+		const folder: TFolder = mockDeepFolder()
+		const sortSpec: CustomSortSpec = sortSpecWithDepth(depth)
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderDatesIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.mtime).toEqual(mtime)
+		expect(result.ctimeOldest).toEqual(ctimeOldest)
+		expect(result.ctimeNewest).toEqual(TIMESTAMP_INBETWEEN)
+	})
+	it('should cache the dates until invalidated by a change in the subtree', () => {
+		// given
+		const folder: TFolder = mockDeepFolder()
+		const sortSpec: CustomSortSpec = sortSpecWithDepth(Infinity)
+		const deepFile: TFile = ((folder.children[1] as TFolder).children[0] as TFolder).children[0] as TFile
+		const first: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderDatesIfNeeded([first], sortSpec)
+
+		// when
+		deepFile.stat.mtime = DEEP_TIMESTAMP + 1000
+		const cached: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderDatesIfNeeded([cached], sortSpec)
+		invalidateFolderDatesCache('Project/Drafts/Ideas/Idea.md')
+		const recalculated: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderDatesIfNeeded([recalculated], sortSpec)
+
+		// then
+		expect(first.mtime).toEqual(DEEP_TIMESTAMP)
+		expect(cached.mtime).toEqual(DEEP_TIMESTAMP)
+		expect(recalculated.mtime).toEqual(DEEP_TIMESTAMP + 1000)
+	})
+	it('should apply the deepest of the advanced date orders of the group', () => {
+		expect(getFolderDatesDepth({
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.byCreatedTimeAdvanced,
+			folderDatesDepth: 1,
+			secondaryOrders: [
+				{order: CustomSortOrder.byModifiedTimeReverseAdvanced, folderDatesDepth: 3},
+				{order: CustomSortOrder.alphabetical, folderDatesDepth: 5}
+			]
+		})).toEqual(3)
+		expect(getFolderDatesDepth({
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical,
+			folderDatesDepth: 2
+		})).toEqual(0)
+	})
+})
+
+describe('dates from metadata', () => {
+	const cache: { [path: string]: CachedMetadata } = {
+		'Some parent folder/Synced note.md': {frontmatter: {created: '2020-01-01', updated: '2021-06-30T10:00:00Z', position: MockedLoc}},
+		'Some parent folder/Note with invalid date.md': {frontmatter: {created: 'last year', position: MockedLoc}}
+	}
+	const mCache: MetadataCache = {
+		getCache: function (path: string): CachedMetadata | undefined {
+			return cache[path]
+		}
+	} as MetadataCache
+	it('should take the dates of a file from metadata, falling back to the file system', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.ExactPrefix,
+				exactPrefix: 'Synced',
+				order: CustomSortOrder.byCreatedTime,
+				modifiedFromMetadataField: 'updated'
+			}, {
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byCreatedTime
+			}],
+			outsidersGroupIdx: 1,
+			createdFromMetadataField: 'created',
+			_mCache: mCache
+		}
+
+		// when
+		const synced: FolderItemForSorting = determineSortingGroup(mockTFile('Synced note', 'md', 10, TIMESTAMP_NEWEST, TIMESTAMP_NEWEST), sortSpec)
+		const invalid: FolderItemForSorting = determineSortingGroup(mockTFile('Note with invalid date', 'md', 10, TIMESTAMP_NEWEST, TIMESTAMP_NEWEST), sortSpec)
+
+		// then
+		expect(synced.ctimeNewest).toEqual(new Date(2020, 0, 1).getTime())
+		expect(synced.ctimeOldest).toEqual(new Date(2020, 0, 1).getTime())
+		expect(synced.mtime).toEqual(Date.UTC(2021, 5, 30, 10))
+		expect(invalid.ctimeNewest).toEqual(TIMESTAMP_NEWEST)
+		expect(invalid.mtime).toEqual(TIMESTAMP_NEWEST)
+	})
+	it('should apply the dates from metadata to the advanced dates of folders', () => {
+		// given
+		const folder: TFolder = mockTFolder('Folder', [
+			mockTFile('Synced note', 'md', 10, TIMESTAMP_NEWEST, TIMESTAMP_NEWEST),
+			mockTFile('Other note', 'md', 10, TIMESTAMP_INBETWEEN, TIMESTAMP_INBETWEEN)
+		])
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byCreatedTimeAdvanced
+			}],
+			outsidersGroupIdx: 0,
+			createdFromMetadataField: 'created',
+			_mCache: mCache
+		}
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderDatesIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.ctimeOldest).toEqual(new Date(2020, 0, 1).getTime())
+		expect(result.ctimeNewest).toEqual(TIMESTAMP_INBETWEEN)
+		expect(result.mtime).toEqual(TIMESTAMP_NEWEST)
+	})
+})
+
+describe('sortingSpecUsesMetadataDates', () => {
+	it.each([
+		[undefined, undefined, false],
+		['created', undefined, true],
+		[undefined, 'updated', true]
+	])('should detect the dates taken from metadata for spec %s and group %s', (specCreatedFrom: string | undefined, groupModifiedFrom: string | undefined, expected: boolean) => {
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byModifiedTimeAdvanced,
+				modifiedFromMetadataField: groupModifiedFrom
+			}],
+			outsidersGroupIdx: 0,
+			createdFromMetadataField: specCreatedFrom
+		}
+		expect(sortingSpecUsesMetadataDates(sortSpec)).toBe(expected)
+	})
+})
+
+describe('determineFolderSizesIfNeeded', () => {
+	it('should not be triggered if not needed - sorting method does not require it', () => {
+		// given
+		const folder: TFolder = mockTFolderWithChildren('Test folder 1')
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.bySizeReverse
+			}],
+			outsidersGroupIdx: 0
+		}
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderSizesIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.size).toBeUndefined()
+		expect(result.itemsCount).toBeUndefined()
+	})
+	it('should correctly determine the recursive size and items count, if triggered', () => {
+		// given
+		const subfolder: TFolder = mockTFolder('Attachments', [
+			mockTFile('Image 1', 'png', 1000),
+			mockTFile('Image 2', 'png', 2000)
+		])
+		const folder: TFolder = mockTFolder('Test folder 1', [
+			subfolder,
+			mockTFile('Note', 'md', 50)
+		])
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.alphabetical,
+				secondaryOrders: [{order: CustomSortOrder.bySizeReverseAdvanced}]
+			}],
+			outsidersGroupIdx: 0
+		}
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(folder, sortSpec)
+		determineFolderSizesIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.size).toEqual(3050)
+		expect(result.itemsCount).toEqual(4)
+	})
+	it('should take the size of a file only if required by the sorting method', () => {
+		// given
+		const file: TFile = mockTFile('Image', 'png', 1234)
+		const sortSpecOf = (order: CustomSortOrder): CustomSortSpec => ({
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: order
+			}],
+			outsidersGroupIdx: 0
+		})
+
+		// when
+		const resultBySize: FolderItemForSorting = determineSortingGroup(file, sortSpecOf(CustomSortOrder.bySize))
+		const resultByName: FolderItemForSorting = determineSortingGroup(file, sortSpecOf(CustomSortOrder.alphabetical))
+
+		// then
+		expect(resultBySize.size).toEqual(1234)
+		expect(resultByName.size).toBeUndefined()
+	})
+})
+
+describe('countBacklinks', () => {
+	it('should count distinct linking notes and ignore self-links', () => {
+		// given
+		const resolvedLinks = {
+			'a.md': {'b.md': 3, 'c.md': 1, 'a.md': 2},
+			'b.md': {'c.md': 1},
+			'c.md': {}
+		}
+
+		// when
+		const result = countBacklinks(resolvedLinks)
+
+		// then
+		expect(result).toEqual({'b.md': 1, 'c.md': 2})
+	})
+})
+
+describe('determineLinksCountsIfNeeded', () => {
+	const mockResolvedLinks = (resolvedLinks: Record<string, Record<string, number>>): MetadataCache => {
+		return {resolvedLinks: resolvedLinks} as unknown as MetadataCache
+	}
+	it('should not be triggered if not needed - sorting method does not require it', () => {
+		// given
+		const file: TFile = mockTFile('Popular note', 'md')
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.alphabetical
+			}],
+			outsidersGroupIdx: 0,
+			_mCache: mockResolvedLinks({'Other.md': {'Some parent folder/Popular note.md': 1}})
+		}
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(file, sortSpec)
+		determineLinksCountsIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.backlinks).toBeUndefined()
+		expect(result.outlinks).toBeUndefined()
+	})
+	it('should correctly determine the counts of a file, if triggered', () => {
+		// given
+		const file: TFile = mockTFile('Popular note', 'md')
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.alphabetical,
+				secondaryOrders: [{order: CustomSortOrder.byBacklinksReverse}]
+			}],
+			outsidersGroupIdx: 0,
+			_mCache: mockResolvedLinks({
+				'Other.md': {'Some parent folder/Popular note.md': 4},
+				'Another.md': {'Some parent folder/Popular note.md': 1},
+				'Some parent folder/Popular note.md': {'Other.md': 1, 'Some parent folder/Popular note.md': 1}
+			})
+		}
+
+		// when
+		const result: FolderItemForSorting = determineSortingGroup(file, sortSpec)
+		determineLinksCountsIfNeeded([result], sortSpec)
+
+		// then
+		expect(result.backlinks).toEqual(2)
+		expect(result.outlinks).toEqual(1)
+	})
+	it('should sum up the counts of child notes of a folder only for advanced orders', () => {
+		// given
+		const folder: TFolder = mockTFolderWithChildren('Test folder 1')
+		const resolvedLinks = {
+			'Other.md': {'Some parent folder/Child file 1 created as oldest, modified recently.md': 1},
+			'Another.md': {
+				'Some parent folder/Child file 1 created as oldest, modified recently.md': 1,
+				'Some parent folder/Child file 2 created as newest, not modified at all.md': 1
+			},
+			'Some parent folder/Child file 3 created inbetween, modified inbetween.md': {'Other.md': 1, 'Another.md': 2}
+		}
+		const sortSpecOf = (order: CustomSortOrder): CustomSortSpec => ({
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: order
+			}],
+			outsidersGroupIdx: 0,
+			_mCache: mockResolvedLinks(resolvedLinks)
+		})
+		const sortSpecAdvanced: CustomSortSpec = sortSpecOf(CustomSortOrder.byBacklinksReverseAdvanced)
+		const sortSpecSimple: CustomSortSpec = sortSpecOf(CustomSortOrder.byBacklinksReverse)
+
+		// when
+		const resultAdvanced: FolderItemForSorting = determineSortingGroup(folder, sortSpecAdvanced)
+		determineLinksCountsIfNeeded([resultAdvanced], sortSpecAdvanced)
+		const resultSimple: FolderItemForSorting = determineSortingGroup(folder, sortSpecSimple)
+		determineLinksCountsIfNeeded([resultSimple], sortSpecSimple)
+
+		// then
+		expect(resultAdvanced.backlinks).toEqual(3)
+		expect(resultAdvanced.outlinks).toEqual(2)
+		expect(resultSimple.backlinks).toBeUndefined()
+		expect(resultSimple.outlinks).toBeUndefined()
+	})
+})
+
+describe('CustomSortOrder.byBacklinks', () => {
+	it('should order files by the number of backlinks and folders alphabetically', () => {
+		// given
+		const itemA: FolderItemForSorting = {isFolder: false, sortString: 'a', path: 'a.md', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, backlinks: 3}
+		const itemB: FolderItemForSorting = {isFolder: false, sortString: 'b', path: 'b.md', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, backlinks: 1}
+		const folderX: FolderItemForSorting = {isFolder: true, sortString: 'x', path: 'x', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, backlinks: 7}
+		const folderY: FolderItemForSorting = {isFolder: true, sortString: 'y', path: 'y', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, backlinks: 1}
+		const sorter: SorterFn = Sorters[CustomSortOrder.byBacklinksReverse]
+		const sorterAdvanced: SorterFn = Sorters[CustomSortOrder.byBacklinksReverseAdvanced]
+
+		// then
+		expect(sorter(itemA, itemB)).toBeLessThan(0)
+		expect(sorter(itemB, itemA)).toBeGreaterThan(0)
+		expect(sorter(folderX, folderY)).toBeLessThan(0)
+		expect(sorter(folderY, folderX)).toBeGreaterThan(0)
+		expect(sorterAdvanced(folderX, folderY)).toBeLessThan(0)
+		expect(sorterAdvanced(folderY, folderX)).toBeGreaterThan(0)
+	})
+})
+
+describe('determineOpenHistoryIfNeeded', () => {
+	it('should take the opening history of files, if needed', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.ExactPrefix,
+				exactPrefix: 'Daily',
+				order: CustomSortOrder.alphabetical
+			}, {
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.alphabetical,
+				secondaryOrders: [{order: CustomSortOrder.byLastOpenedReverse}]
+			}],
+			outsidersGroupIdx: 1,
+			_openHistory: {
+				'Some parent folder/Daily note.md': [MOCK_TIMESTAMP, 7],
+				'Some parent folder/Opened note.md': [MOCK_TIMESTAMP + 1000, 2]
+			}
+		}
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('Daily note', 'md'),
+			mockTFile('Opened note', 'md'),
+			mockTFile('Never opened note', 'md'),
+			mockTFolder('Folder')
+		].map((item) => determineSortingGroup(item, sortSpec))
+
+		// when
+		determineOpenHistoryIfNeeded(items, sortSpec)
+
+		// then
+		expect(items.map((item) => [item.lastOpened, item.openCount])).toEqual([
+			[undefined, undefined],
+			[MOCK_TIMESTAMP + 1000, 2],
+			[0, 0],
+			[undefined, undefined]
+		])
+	})
+})
+
+describe('sortingSpecNeedsOpenHistory', () => {
+	it.each([
+		[CustomSortOrder.alphabetical, undefined, false],
+		[CustomSortOrder.byOpenCount, undefined, true],
+		[CustomSortOrder.alphabetical, CustomSortOrder.byLastOpenedReverse, true],
+		[CustomSortOrder.byCreatedTime, CustomSortOrder.byModifiedTime, false]
+	])('should detect the need of the opening history for %s then %s', (order: CustomSortOrder, secondaryOrder: CustomSortOrder | undefined, expected: boolean) => {
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.ExactPrefix,
+				exactPrefix: 'Daily',
+				order: CustomSortOrder.alphabetical
+			}, {
+				type: CustomSortGroupType.Outsiders,
+				order: order,
+				secondaryOrders: secondaryOrder ? [{order: secondaryOrder}] : undefined
+			}],
+			outsidersGroupIdx: 1
+		}
+		expect(sortingSpecNeedsOpenHistory(sortSpec)).toBe(expected)
+	})
+})
+
+describe('CustomSortOrder.byLastOpened and byOpenCount', () => {
+	it('should order files by the opening history and folders alphabetically', () => {
+		// given
+		const itemA: FolderItemForSorting = {isFolder: false, sortString: 'a', path: 'a', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, lastOpened: MOCK_TIMESTAMP, openCount: 5}
+		const itemB: FolderItemForSorting = {isFolder: false, sortString: 'b', path: 'b', ctimeOldest: 0, ctimeNewest: 0, mtime: 0, lastOpened: MOCK_TIMESTAMP + 1000, openCount: 1}
+		const folderX: FolderItemForSorting = {isFolder: true, sortString: 'x', path: 'x', ctimeOldest: 0, ctimeNewest: 0, mtime: 0}
+		const folderY: FolderItemForSorting = {isFolder: true, sortString: 'y', path: 'y', ctimeOldest: 0, ctimeNewest: 0, mtime: 0}
+
+		// then
+		expect(Sorters[CustomSortOrder.byLastOpenedReverse](itemA, itemB)).toBeGreaterThan(0)
+		expect(Sorters[CustomSortOrder.byLastOpened](itemA, itemB)).toBeLessThan(0)
+		expect(Sorters[CustomSortOrder.byOpenCountReverse](itemA, itemB)).toBeLessThan(0)
+		expect(Sorters[CustomSortOrder.byOpenCount](itemA, itemB)).toBeGreaterThan(0)
+		expect(Sorters[CustomSortOrder.byLastOpenedReverse](folderX, folderY)).toBeLessThan(0)
+		expect(Sorters[CustomSortOrder.byOpenCountReverse](folderY, folderX)).toBeGreaterThan(0)
+	})
+})
+
+describe('flattenBookmarks', () => {
+	it('should list the bookmarked files and folders in the order of bookmarks, with the enclosing groups', () => {
+		const result: Array<BookmarkedItem> = flattenBookmarks([
+			{type: 'file', path: 'Inbox.md'},
+			{type: 'search', title: 'TODOs'},
+			{type: 'group', title: 'Reading List', items: [
+				{type: 'file', path: 'Books/Dune.md'},
+				{type: 'group', title: 'Later', items: [
+					{type: 'folder', path: 'Papers'}
+				]}
+			]},
+			{type: 'file', path: 'Books/Dune.md'}
+		])
+		expect(result).toEqual([
+			{path: 'Inbox.md', groups: []},
+			{path: 'Books/Dune.md', groups: ['reading list']},
+			{path: 'Papers', groups: ['reading list', 'later']},
+			{path: 'Books/Dune.md', groups: []}
+		])
+		expect(getBookmarkRank(result, 'Books/Dune.md')).toBe(1)
+		expect(getBookmarkRank(result, 'Papers', 'reading list')).toBe(2)
+		expect(getBookmarkRank(result, 'Inbox.md', 'later')).toBeUndefined()
+	})
+})
+
+describe('CustomSortOrder.byBookmarks', () => {
+	it('should order the items as bookmarked, the not bookmarked go last', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byBookmarks
+			}],
+			outsidersGroupIdx: 0
+		}
+		const bookmarks: Array<BookmarkedItem> = [
+			{path: 'Some parent folder/Second.md', groups: []},
+			{path: 'Folder', groups: ['projects']},
+			{path: 'Some parent folder/First.md', groups: []}
+		]
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('First', 'md'),
+			mockTFile('B not bookmarked', 'md'),
+			mockTFolder('Folder'),
+			mockTFile('A not bookmarked', 'md'),
+			mockTFile('Second', 'md')
+		].map((item) => determineSortingGroup(item, sortSpec))
+
+		// when
+		determineBookmarkRanksIfNeeded(items, sortSpec, bookmarks)
+		const sorted: Array<string> = [...items].sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.sortString)
+		sortSpec.groups[0].order = CustomSortOrder.byBookmarksReverse
+		const sortedReverse: Array<string> = [...items].sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.sortString)
+
+		// then
+		expect(sorted).toEqual(['Second.md', 'Folder', 'First.md', 'A not bookmarked.md', 'B not bookmarked.md'])
+		expect(sortedReverse).toEqual(['First.md', 'Folder', 'Second.md', 'B not bookmarked.md', 'A not bookmarked.md'])
+	})
+})
+
+describe('getNoteTitle', () => {
+	const defaultSources = [
+		{type: TitleSourceType.FirstHeading},
+		{type: TitleSourceType.Property, propertyName: 'title'},
+		{type: TitleSourceType.FirstAlias}
+	]
+	it.each([
+		[{headings: [{heading: 'Intro', level: 2, position: MockedLoc}, {heading: ' The Title ', level: 1, position: MockedLoc}], frontmatter: {title: 'Prop', position: MockedLoc}}, 'The Title'],
+		[{headings: [{heading: 'Intro', level: 2, position: MockedLoc}], frontmatter: {title: 'Prop', aliases: ['Alias'], position: MockedLoc}}, 'Prop'],
+		[{frontmatter: {title: '', aliases: ['', 'Alias 1', 'Alias 2'], position: MockedLoc}}, 'Alias 1'],
+		[{frontmatter: {aliases: 'Alias A, Alias B', position: MockedLoc}}, 'Alias A'],
+		[{frontmatter: {alias: 'Single', position: MockedLoc}}, 'Single'],
+		[{frontmatter: {title: 2023, position: MockedLoc}}, '2023'],
+		[{}, undefined],
+		[undefined, undefined]
+	])('should derive the title from %j as %s', (metadata: CachedMetadata | undefined, expectedTitle: string | undefined) => {
+		expect(getNoteTitle(metadata, defaultSources)).toEqual(expectedTitle)
+	})
+	it('should respect the order of sources', () => {
+		// given
+		const metadata: CachedMetadata = {
+			headings: [{heading: 'Heading', level: 1, position: MockedLoc}],
+			frontmatter: {name: 'Name prop', aliases: ['Alias'], position: MockedLoc}
+		}
+
+		// when
+		const result: string | undefined = getNoteTitle(metadata, [{type: TitleSourceType.FirstAlias}, {type: TitleSourceType.FirstHeading}])
+		const resultFromProperty: string | undefined = getNoteTitle(metadata, [{type: TitleSourceType.Property, propertyName: 'name'}])
+
+		// then
+		expect(result).toEqual('Alias')
+		expect(resultFromProperty).toEqual('Name prop')
+	})
+})
+
+describe('CustomSortOrder.byTitle', () => {
+	const cache: { [path: string]: CachedMetadata } = {
+		'Some parent folder/202301051230.md': {headings: [{heading: 'Zettelkasten', level: 1, position: MockedLoc}]},
+		'Some parent folder/202301051231.md': {frontmatter: {title: 'Atomic notes', position: MockedLoc}},
+		'Folder X/Folder X.md': {frontmatter: {aliases: ['Moc'], position: MockedLoc}}
+	}
+	const sortSpec: CustomSortSpec = {
+		targetFoldersPaths: ['/'],
+		groups: [{
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.byTitle
+		}],
+		outsidersGroupIdx: 0,
+		_mCache: {
+			getCache: function (path: string): CachedMetadata | undefined {
+				return cache[path]
+			}
+		} as MetadataCache
+	}
+	it('should derive the title, falling back to the name, and keep the name in the sortString', () => {
+		// given
+		const items: Array<TFile | TFolder> = [
+			mockTFile('202301051230', 'md'),
+			mockTFile('202301051231', 'md'),
+			mockTFile('202301051232', 'md'),
+			mockTFolder('Folder X')
+		]
+
+		// when
+		const result: Array<FolderItemForSorting> = items.map((item) => determineSortingGroup(item, sortSpec))
+
+		// then
+		expect(result.map((item) => item.title)).toEqual(['Zettelkasten', 'Atomic notes', '202301051232.md', 'Moc'])
+		expect(result.map((item) => item.sortString)).toEqual(['202301051230.md', '202301051231.md', '202301051232.md', 'Folder X'])
+	})
+	it('should order by the title', () => {
+		// given
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('202301051230', 'md'),
+			mockTFile('202301051231', 'md'),
+			mockTFolder('Folder X')
+		].map((item) => determineSortingGroup(item, sortSpec))
+
+		// when
+		const result: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.path)
+
+		// then
+		expect(result).toEqual(['Some parent folder/202301051231.md', 'Folder X', 'Some parent folder/202301051230.md'])
+	})
+	it('should order the items with equal titles by name', () => {
+		// given
+		const titles: { [path: string]: string } = {
+			'Some parent folder/a.md': 'Same title',
+			'Some parent folder/b.md': 'Same title',
+			'Some parent folder/c.md': 'Other title'
+		}
+		const sortSpecWithEqualTitles: CustomSortSpec = {
+			...sortSpec,
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byTitleReverse,
+				byTitleSources: [{type: TitleSourceType.Property, propertyName: 'title'}]
+			}],
+			_mCache: {
+				getCache: function (path: string): CachedMetadata | undefined {
+					return titles[path] ? {frontmatter: {title: titles[path], position: MockedLoc}} : undefined
+				}
+			} as MetadataCache
+		}
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('a', 'md'),
+			mockTFile('c', 'md'),
+			mockTFile('b', 'md')
+		].map((item) => determineSortingGroup(item, sortSpecWithEqualTitles))
+
+		// when
+		const result: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpecWithEqualTitles)).map((item) => item.path)
+
+		// then
+		expect(result).toEqual([
+			'Some parent folder/b.md',
+			'Some parent folder/a.md',
+			'Some parent folder/c.md'
+		])
+	})
+	it('should not affect the other orders in the chain', () => {
+		// given
+		const sortSpecWithSecondaryByTitle: CustomSortSpec = {
+			...sortSpec,
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.alphabetical,
+				secondaryOrders: [{order: CustomSortOrder.byTitle}]
+			}]
+		}
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('202301051230', 'md'),
+			mockTFile('202301051232', 'md'),
+			mockTFile('202301051231', 'md')
+		].map((item) => determineSortingGroup(item, sortSpecWithSecondaryByTitle))
+
+		// when
+		const result: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpecWithSecondaryByTitle)).map((item) => item.path)
+
+		// then
+		expect(result).toEqual([
+			'Some parent folder/202301051230.md',
+			'Some parent folder/202301051231.md',
+			'Some parent folder/202301051232.md'
+		])
+	})
+})
+
+describe('CustomSortOrder.byFolderNoteLinks', () => {
+	const folderNotePath: string = 'Some parent folder/Some parent folder.md'
+	const mockLinkCache = (link: string, offset: number) => ({
+		link: link,
+		original: `[[${link}]]`,
+		position: {start: {col: 0, offset: offset, line: 0}, end: {col: 0, offset: offset, line: 0}}
+	})
+	const mCache: MetadataCache = {
+		getCache: function (path: string): CachedMetadata | null {
+			return path === folderNotePath ? {
+				links: [mockLinkCache('Chapter 2', 10), mockLinkCache('Intro#Summary', 30), mockLinkCache('Chapter 2', 40), mockLinkCache('Nonexistent', 50)],
+				embeds: [mockLinkCache('Appendix', 20)]
+			} : null
+		},
+		getFirstLinkpathDest: function (linkpath: string, sourcePath: string): TFile | null {
+			const paths: { [linkpath: string]: string } = {
+				'Chapter 2': 'Some parent folder/Chapter 2.md',
+				'Intro': 'Some parent folder/Intro.md',
+				'Appendix': 'Appendix/Appendix.md'
+			}
+			return paths[linkpath] ? {path: paths[linkpath]} as TFile : null
+		}
+	} as unknown as MetadataCache
+	const sortSpecOf = (order: CustomSortOrder, secondaryOrder?: CustomSortOrder): CustomSortSpec => ({
+		targetFoldersPaths: ['/'],
+		groups: [{
+			type: CustomSortGroupType.Outsiders,
+			order: order,
+			secondaryOrders: secondaryOrder ? [{order: secondaryOrder}] : undefined
+		}],
+		outsidersGroupIdx: 0,
+		_mCache: mCache
+	})
+	const children: Array<TFile | TFolder> = [
+		mockTFile('Intro', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_OLDEST),
+		mockTFile('Chapter 2', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_OLDEST),
+		mockTFile('Unlisted B', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_OLDEST),
+		mockTFile('Unlisted A', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_NEWEST),
+		mockTFolder('Appendix')
+	]
+	const folder: TFolder = mockTFolder('Some parent folder', children)
+	const sortItems = (sortSpec: CustomSortSpec): Array<string> => {
+		const items: Array<FolderItemForSorting> = children.map((child) => determineSortingGroup(child, sortSpec))
+		determineFolderNoteLinkRanksIfNeeded(items, sortSpec, folder)
+		return items.sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.path)
+	}
+	it('should order by the first occurrence of a link in the folder note, the not linked items go last, alphabetically', () => {
+		expect(sortItems(sortSpecOf(CustomSortOrder.byFolderNoteLinks))).toEqual([
+			'Some parent folder/Chapter 2.md',
+			'Appendix',
+			'Some parent folder/Intro.md',
+			'Some parent folder/Unlisted A.md',
+			'Some parent folder/Unlisted B.md'
+		])
+	})
+	it('should order in reverse, the not linked items go last', () => {
+		expect(sortItems(sortSpecOf(CustomSortOrder.byFolderNoteLinksReverse))).toEqual([
+			'Some parent folder/Intro.md',
+			'Appendix',
+			'Some parent folder/Chapter 2.md',
+			'Some parent folder/Unlisted B.md',
+			'Some parent folder/Unlisted A.md'
+		])
+	})
+	it('should apply the secondary order to the not linked items', () => {
+		expect(sortItems(sortSpecOf(CustomSortOrder.byFolderNoteLinks, CustomSortOrder.byModifiedTime))).toEqual([
+			'Some parent folder/Chapter 2.md',
+			'Appendix',
+			'Some parent folder/Intro.md',
+			'Some parent folder/Unlisted B.md',
+			'Some parent folder/Unlisted A.md'
+		])
+	})
+})
+
+describe('placeAttachmentsNextToNotes', () => {
+	const mockEmbed = (link: string) => ({
+		link: link,
+		original: `![[${link}]]`,
+		position: MockedLoc
+	})
+	const mCache: MetadataCache = {
+		getCache: function (path: string): CachedMetadata | null {
+			const embeds: { [path: string]: Array<string> } = {
+				'Some parent folder/Note A.md': ['image 2.png', 'image 1.png', 'Note B', 'elsewhere.png'],
+				'Some parent folder/Note B.md': ['image 1.png', 'doc.pdf#page=2']
+			}
+			return embeds[path] ? {embeds: embeds[path].map(mockEmbed)} : null
+		},
+		getFirstLinkpathDest: function (linkpath: string, sourcePath: string): TFile | null {
+			return {path: linkpath.includes('elsewhere') ? `Other folder/${linkpath}` : `Some parent folder/${linkpath}`} as TFile
+		}
+	} as unknown as MetadataCache
+	const sortSpec: CustomSortSpec = {
+		targetFoldersPaths: ['/'],
+		groups: [{
+			type: CustomSortGroupType.ExactSuffix,
+			exactSuffix: '.svg',
+			matchFilenameWithExt: true,
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}],
+		outsidersGroupIdx: 1,
+		attachmentsNextToNotes: true,
+		_mCache: mCache
+	}
+	it('should place the embedded attachments right after the first embedding note', () => {
+		// given
+		const items: Array<FolderItemForSorting> = [
+			mockTFile('diagram', 'svg'),
+			mockTFolder('Assets'),
+			mockTFile('doc', 'pdf'),
+			mockTFile('image 1', 'png'),
+			mockTFile('image 2', 'png'),
+			mockTFile('image 3', 'png'),
+			mockTFile('Note A', 'md'),
+			mockTFile('Note B', 'md')
+		].map((item) => determineSortingGroup(item, sortSpec))
+			.sort((a, b) => compareTwoItems(a, b, sortSpec))
+
+		// when
+		const result: Array<string> = placeAttachmentsNextToNotes(items, sortSpec).map((item) => item.path)
+
+		// then
+		expect(result).toEqual([
+			'Some parent folder/diagram.svg',
+			'Assets',
+			'Some parent folder/Note A.md',
+			'Some parent folder/image 1.png',
+			'Some parent folder/image 2.png',
+			'Some parent folder/Note B.md',
+			'Some parent folder/doc.pdf',
+			'Some parent folder/image 3.png'
+		])
+	})
+})
+
+describe('matchesMetadataValueCondition', () => {
+	it.each([
+		['done', {operator: MetadataValueOperator.Equal, values: ['Done']}, true],
+		[' done ', {operator: MetadataValueOperator.Equal, values: ['done']}, true],
+		['doing', {operator: MetadataValueOperator.Equal, values: ['done']}, false],
+		[3, {operator: MetadataValueOperator.Equal, values: ['3']}, true],
+		[true, {operator: MetadataValueOperator.Equal, values: ['true']}, true],
+		[['work', 'done'], {operator: MetadataValueOperator.Equal, values: ['done']}, true],
+		['doing', {operator: MetadataValueOperator.NotEqual, values: ['done']}, true],
+		['done', {operator: MetadataValueOperator.NotEqual, values: ['done']}, false],
+		[['work', 'done'], {operator: MetadataValueOperator.NotEqual, values: ['done']}, false],
+		[[], {operator: MetadataValueOperator.NotEqual, values: ['done']}, false],
+		[undefined, {operator: MetadataValueOperator.NotEqual, values: ['done']}, false],
+		['', {operator: MetadataValueOperator.NotEqual, values: ['done']}, false],
+		['todo', {operator: MetadataValueOperator.In, values: ['todo', 'doing']}, true],
+		['done', {operator: MetadataValueOperator.In, values: ['todo', 'doing']}, false],
+		['done', {operator: MetadataValueOperator.NotIn, values: ['todo', 'doing']}, true],
+		[['done', 'todo'], {operator: MetadataValueOperator.NotIn, values: ['todo', 'doing']}, false],
+		[2, {operator: MetadataValueOperator.Less, number: 3}, true],
+		['2.5', {operator: MetadataValueOperator.Less, number: 2.5}, false],
+		['2.5', {operator: MetadataValueOperator.LessOrEqual, number: 2.5}, true],
+		[-1, {operator: MetadataValueOperator.Greater, number: -2}, true],
+		['high', {operator: MetadataValueOperator.Greater, number: -2}, false],
+		[true, {operator: MetadataValueOperator.GreaterOrEqual, number: 0}, false],
+		[[1, 7], {operator: MetadataValueOperator.GreaterOrEqual, number: 5}, true],
+		['Draft of intro', {operator: MetadataValueOperator.Matches, regex: /^Draft/}, true],
+		['draft of intro', {operator: MetadataValueOperator.Matches, regex: /^Draft/}, false],
+		[null, {operator: MetadataValueOperator.Matches, regex: /.*/}, false]
+	])('should evaluate %s against %o as %s', (value: any, condition: MetadataValueCondition, expected: boolean) => {
+		expect(matchesMetadataValueCondition(value, condition)).toBe(expected)
+	})
+})
+
+describe('getMetadataValueRank', () => {
+	const enumeration: MetadataValuesEnumeration = {values: ['inbox', 'doing', 'review', 'done'], unknownValuesIdx: 2}
+	it.each([
+		['inbox', 'doing'],
+		['Doing', 'blocked'],
+		['blocked', 'on hold'],
+		['on hold', 'review'],
+		['review', ' DONE '],
+		[['done', 'inbox'], 'doing'],
+		['done', undefined]
+	])('should order %s < %s', (a: any, b: any) => {
+		const itemA = {metadataFieldValue: getMetadataValueRank(a, enumeration)} as FolderItemForSorting
+		const itemB = {metadataFieldValue: getMetadataValueRank(b, enumeration)} as FolderItemForSorting
+		expect(Sorters[CustomSortOrder.byMetadataFieldEnumeration](itemA, itemB)).toBeLessThan(0)
+	})
+	it('should place not enumerated values at the end by default', () => {
+		const enumerationWithUnknownAtTheEnd: MetadataValuesEnumeration = {values: ['inbox', 'done'], unknownValuesIdx: 2}
+		expect(getMetadataValueRank('inbox', enumerationWithUnknownAtTheEnd)).toBe('00000000//')
+		expect(getMetadataValueRank('done', enumerationWithUnknownAtTheEnd)).toBe('00000001//')
+		expect(getMetadataValueRank('other', enumerationWithUnknownAtTheEnd)).toBe('00000002//other')
+		expect(getMetadataValueRank(3, enumerationWithUnknownAtTheEnd)).toBe('00000002//3')
+	})
+	it('should treat empty value as missing', () => {
+		expect(getMetadataValueRank(null, enumeration)).toBeUndefined()
+		expect(getMetadataValueRank('', enumeration)).toBeUndefined()
+		expect(getMetadataValueRank([], enumeration)).toBeUndefined()
+	})
+	it('should keep items w/o metadata at the end in reverse order', () => {
+		const files: Array<FolderItemForSorting> = [
+			{sortString: 'a', metadataFieldValue: getMetadataValueRank(undefined, enumeration)},
+			{sortString: 'b', metadataFieldValue: getMetadataValueRank('doing', enumeration)},
+			{sortString: 'c', metadataFieldValue: getMetadataValueRank('done', enumeration)},
+			{sortString: 'd', metadataFieldValue: getMetadataValueRank('unknown', enumeration)}
+		] as Array<FolderItemForSorting>
+		const sorted: Array<string> = files.sort(Sorters[CustomSortOrder.byMetadataFieldEnumerationReverse]).map((item) => item.sortString)
+		expect(sorted).toEqual(['c', 'd', 'b', 'a'])
+	})
+})
+
+describe('getMetadataValueSortingKey', () => {
+	it.each([
+		[-10, '-2.75'],
+		['-2.75', -2.5],
+		[-2.5, 0],
+		[0, '1.5'],
+		['1.5', 2],
+		[2, ' 10 '],
+		['10', 1e3],
+		['1e3', 123456789.5]
+	])('should order numbers: %s < %s', (a: number | string, b: number | string) => {
+		const keyA: string | null | undefined = getMetadataValueSortingKey(a, MetadataValueType.Number)
+		const keyB: string | null | undefined = getMetadataValueSortingKey(b, MetadataValueType.Number)
+		expect(keyA).toBeTruthy()
+		expect(keyB).toBeTruthy()
+		expect(Sorters[CustomSortOrder.byMetadataFieldAlphabetical]({metadataFieldValue: keyA} as FolderItemForSorting, {metadataFieldValue: keyB} as FolderItemForSorting)).toBeLessThan(0)
+	})
+	it.each([
+		['1999-12-31', '2000-01-01'],
+		['2000-01-01', '2000-01-01T00:00:01'],
+		['2023-12-01 09:30', '2023-12-01T10:00:00.5'],
+		['2023-12-01T10:00:00Z', '2023-12-01T09:00:00-02:00'],
+		['2023-12-01T10:00:00+02:00', '2023-12-01T10:00:00Z'],
+		[new Date(Date.UTC(2023, 0, 1)), '2023-12-01']
+	])('should order dates: %s < %s', (a: string | Date, b: string | Date) => {
+		const keyA: string | null | undefined = getMetadataValueSortingKey(a, MetadataValueType.Date)
+		const keyB: string | null | undefined = getMetadataValueSortingKey(b, MetadataValueType.Date)
+		expect(keyA).toBeTruthy()
+		expect(keyB).toBeTruthy()
+		expect(Sorters[CustomSortOrder.byMetadataFieldAlphabetical]({metadataFieldValue: keyA} as FolderItemForSorting, {metadataFieldValue: keyB} as FolderItemForSorting)).toBeLessThan(0)
+	})
+	it.each([
+		[true, MetadataValueType.Number],
+		[[1, 2], MetadataValueType.Number],
+		['12 apples', MetadataValueType.Number],
+		['1,5', MetadataValueType.Number],
+		[Infinity, MetadataValueType.Number],
+		[20231201, MetadataValueType.Date],
+		['2023-13-01', MetadataValueType.Date],
+		['2023-02-29', MetadataValueType.Date],
+		['2023-12-01T24:00', MetadataValueType.Date],
+		['next monday', MetadataValueType.Date],
+		[['2023-12-01'], MetadataValueType.Date]
+	])('should reject %s as %s', (value: any, valueType: MetadataValueType) => {
+		expect(getMetadataValueSortingKey(value, valueType)).toBeNull()
+	})
+	it.each([
+		[undefined],
+		[null],
+		['']
+	])('should treat %s as missing value', (value: any) => {
+		expect(getMetadataValueSortingKey(value, MetadataValueType.Number)).toBeUndefined()
+		expect(getMetadataValueSortingKey(value, MetadataValueType.Date)).toBeUndefined()
+	})
+	it('should leave text values intact', () => {
+		expect(getMetadataValueSortingKey('Some text', MetadataValueType.Text)).toBe('Some text')
+		expect(getMetadataValueSortingKey('Some text')).toBe('Some text')
+	})
+	it('should interpret a date without time zone in local time', () => {
+		expect(parseMetadataDate('2024-02-29')).toBe(new Date(2024, 1, 29).getTime())
+		expect(parseMetadataDate('2024-02-29T23:59:59.999Z')).toBe(Date.UTC(2024, 1, 29, 23, 59, 59, 999))
+	})
+})
+
 describe('matchGroupRegex', () => {
 	it( 'should correctly handle no match', () => {
 		// given
@@ -1669,6 +3338,38 @@ describe('matchGroupRegex', () => {
 		expect(entireMatch).toBe('Abc')
 		expect(regExpSpec.normalizerFn).toHaveBeenCalledTimes(1)
 	})
+	it('should use the explicitly selected matching group', () => {
+		// given
+		const regExpSpec: RegExpSpec = {
+			regex: /a(b+)(c+)/i,
+			matchGroupIdx: 2
+		}
+		const name: string = 'Abbccc'
+
+		// when
+		const [matched, matchedGroup, entireMatch] = matchGroupRegex(regExpSpec, name)
+
+		// then
+		expect(matched).toBe(true)
+		expect(matchedGroup).toBe('ccc')
+		expect(entireMatch).toBe('Abbccc')
+	})
+	it('should use the entire match if matching group 0 is selected', () => {
+		// given
+		const regExpSpec: RegExpSpec = {
+			regex: /b+c/i,
+			matchGroupIdx: 0
+		}
+		const name: string = 'Abbc'
+
+		// when
+		const [matched, matchedGroup, entireMatch] = matchGroupRegex(regExpSpec, name)
+
+		// then
+		expect(matched).toBe(true)
+		expect(matchedGroup).toBe('bbc')
+		expect(entireMatch).toBe('bbc')
+	})
 })
 
 const SORT_FIRST_GOES_EARLIER: number = -1
@@ -1838,3 +3539,161 @@ describe('CustomSortOrder.byMetadataFieldAlphabeticalReverse', () => {
 		expect(result3).toBe(SORT_ITEMS_ARE_EQUAL)
 	})
 })
+
+describe('compareTwoItems with a chain of orders', () => {
+	const mockMetadataCache = (frontmatterByPath: { [path: string]: { [field: string]: string } }): MetadataCache => {
+		return {
+			getCache: function (path: string): CachedMetadata | undefined {
+				const frontmatter = frontmatterByPath[path]
+				return frontmatter ? {frontmatter: {...frontmatter, position: MockedLoc}} : undefined
+			}
+		} as MetadataCache
+	}
+	it('should apply the secondary orders as successive tie-breakers', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byMetadataFieldAlphabetical,
+				byMetadataField: 'priority',
+				secondaryOrders: [
+					{order: CustomSortOrder.byModifiedTimeReverse},
+					{order: CustomSortOrder.alphabetical}
+				]
+			}],
+			outsidersGroupIdx: 0,
+			_mCache: mockMetadataCache({
+				'Some parent folder/Task A.md': {priority: '2'},
+				'Some parent folder/Task B.md': {priority: '1'},
+				'Some parent folder/Task C.md': {priority: '2'},
+				'Some parent folder/Task D.md': {priority: '2'},
+			})
+		}
+		const files: Array<TFile> = [
+			mockTFile('Task A', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_OLDEST),
+			mockTFile('Task B', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_OLDEST),
+			mockTFile('Task D', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_NEWEST),
+			mockTFile('Task C', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_NEWEST),
+			mockTFile('Task E', 'md', 10, MOCK_TIMESTAMP, TIMESTAMP_NEWEST)
+		]
+
+		// when
+		const items: Array<FolderItemForSorting> = files.map((file) => determineSortingGroup(file, sortSpec))
+		const sorted: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.path)
+
+		// then
+		expect(sorted).toEqual([
+			'Some parent folder/Task B.md',  // priority 1
+			'Some parent folder/Task C.md',  // priority 2, modified recently, C before D
+			'Some parent folder/Task D.md',
+			'Some parent folder/Task A.md',  // priority 2, modified long ago
+			'Some parent folder/Task E.md'   // no priority
+		])
+	})
+	it('should read the metadata values for the secondary orders by metadata', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.ExactPrefix,
+				exactPrefix: 'Task',
+				order: CustomSortOrder.byModifiedTime,
+				secondaryOrders: [
+					{order: CustomSortOrder.byMetadataFieldAlphabeticalReverse, byMetadataField: 'status'},
+					{order: CustomSortOrder.alphabetical},
+					{order: CustomSortOrder.byMetadataFieldAlphabetical}
+				]
+			}],
+			_mCache: mockMetadataCache({
+				'Some parent folder/Task A.md': {status: 'done', 'sort-index-value': 'x'}
+			})
+		}
+
+		// when
+		const result = determineSortingGroup(mockTFile('Task A', 'md'), sortSpec)
+
+		// then
+		expect(result.secondaryMetadataFieldValues).toEqual(['done', undefined, 'x'])
+	})
+	it('should compare the regexp matched groups and not the full names in alphabetical order followed by other orders', () => {
+		// given
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['/'],
+			groups: [{
+				type: CustomSortGroupType.ExactPrefix,
+				regexPrefix: {
+					regex: /^Chapter  *(\d+) /i,
+					normalizerFn: NumberNormalizerFn
+				},
+				order: CustomSortOrder.alphabetical,
+				secondaryOrders: [
+					{order: CustomSortOrder.byCreatedTimeReverse}
+				]
+			}]
+		}
+		const files: Array<TFile> = [
+			mockTFile('Chapter 2 b', 'md', 10, TIMESTAMP_OLDEST),
+			mockTFile('Chapter 10 a', 'md', 10, TIMESTAMP_NEWEST),
+			mockTFile('Chapter 2 a', 'md', 10, TIMESTAMP_INBETWEEN),
+			mockTFile('Chapter 2 c', 'md', 10, TIMESTAMP_NEWEST)
+		]
+
+		// when
+		const items: Array<FolderItemForSorting> = files.map((file) => determineSortingGroup(file, sortSpec))
+		const sorted: Array<string> = items.sort((a, b) => compareTwoItems(a, b, sortSpec)).map((item) => item.path)
+
+		// then
+		expect(sorted).toEqual([
+			'Some parent folder/Chapter 2 c.md',
+			'Some parent folder/Chapter 2 a.md',
+			'Some parent folder/Chapter 2 b.md',
+			'Some parent folder/Chapter 10 a.md'
+		])
+	})
+})
+
+describe('folderSort', () => {
+	it('should report each invalid metadata value only once, regardless of the number of sortings', () => {
+		// given
+		const folder: TFolder = mockTFolder('Tasks', [
+			mockTFile('Task A', 'md'),
+			mockTFile('Task B', 'md')
+		])
+		const mCache: MetadataCache = {
+			getCache: function (path: string): CachedMetadata | undefined {
+				return {
+					'Some parent folder/Task A.md': {frontmatter: {rank: 'high', position: MockedLoc}},
+					'Some parent folder/Task B.md': {frontmatter: {rank: 1, position: MockedLoc}}
+				}[path]
+			}
+		} as MetadataCache
+		const sortSpec: CustomSortSpec = {
+			targetFoldersPaths: ['Tasks'],
+			groups: [{
+				type: CustomSortGroupType.Outsiders,
+				order: CustomSortOrder.byMetadataFieldAlphabetical,
+				byMetadataField: 'rank',
+				byMetadataFieldType: MetadataValueType.Number
+			}],
+			outsidersGroupIdx: 0
+		}
+		const folderExplorerItem: any = {
+			file: folder,
+			fileExplorer: {fileItems: {'Some parent folder/Task A.md': 'A', 'Some parent folder/Task B.md': 'B'}}
+		}
+		const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+		// when
+		for (let i = 0; i < 3; i++) {
+			sortSpec.plugin = {app: {metadataCache: mCache}} as unknown as Plugin
+			folderSort.call(folderExplorerItem, sortSpec, [])
+		}
+
+		// then
+		expect(folderExplorerItem.children).toEqual(['B', 'A'])
+		expect(warn).toHaveBeenCalledTimes(1)
+		expect(warn.mock.calls[0][0]).toContain('Some parent folder/Task A.md: rank = "high" (expected number)')
+		warn.mockRestore()
+	})
+})
@@ -1,7 +1,10 @@
 import {
 	App,
+	CachedMetadata,
 	FrontMatterCache,
 	InstalledPlugin,
+	MetadataCache,
+	ReferenceCache,
 	requireApiVersion,
 	TAbstractFile,
 	TFile,
@@ -11,16 +14,37 @@ import {
 	Starred_PluginInstance,
 	StarredPlugin_findStarredFile_methodName
 } from '../utils/StarredPluginSignature'
+import {
+	BookmarkedFileType,
+	BookmarkedFolderType,
+	Bookmarks_BookmarkItem,
+	Bookmarks_PluginInstance,
+	BookmarksGroupType,
+	BookmarksPlugin_items_collectionName
+} from '../utils/BookmarksPluginSignature'
 import {
 	CustomSortGroup,
 	CustomSortGroupType,
 	CustomSortOrder,
 	CustomSortSpec,
 	DEFAULT_METADATA_FIELD_FOR_SORTING,
+	GroupCondition,
+	GroupConditionOperator,
+	MetadataValueCondition,
+	MetadataValueOperator,
+	MetadataValuesEnumeration,
+	MetadataValueType,
 	NormalizerFn,
-	RegExpSpec
+	OpenHistory,
+	RegExpSpec,
+	SecondaryOrder,
+	TimeWindow,
+	TimeWindowDate,
+	TitleSource,
+	TitleSourceType
 } from "./custom-sort-types";
 import {isDefined} from "../utils/utils";
+import {DEFAULT_NORMALIZATION_PLACES, getNormalizedNumericValue, prependWithZeros} from "./matchers";
 
 let CollatorCompare = new Intl.Collator(undefined, {
 	usage: "sort",
@@ -39,10 +63,20 @@ export interface FolderItemForSorting {
 	groupIdx?: number  // the index itself represents order for groups
 	sortString: string // fragment (or full name) to be used for sorting
 	metadataFieldValue?: string // relevant to metadata-based sorting only
+	secondaryMetadataFieldValues?: Array<string | undefined> // relevant to metadata-based secondary orders only, in the order of group.secondaryOrders
 	matchGroup?: string // advanced - used for secondary sorting rule, to recognize 'same regex match'
 	ctimeOldest: number // for a file, both ctime values are the same. For folder, they can be different:
 	ctimeNewest: number     //  ctimeOldest = ctime of the oldest child file, ctimeNewest = ctime of the newest child file
 	mtime: number
+	backlinks?: number  // the number of notes linking to the item. For a folder, the sum over its child notes (advanced orders only)
+	outlinks?: number   // the number of notes the item links to. For a folder, the sum over its child notes (advanced orders only)
+	size?: number       // relevant to size-based sorting only. For a folder, the total size of all nested files (advanced orders only)
+	itemsCount?: number // for a folder, the number of all nested files and folders. Relevant to item-count based sorting only
+	folderNoteLinkRank?: number // the position of the first link to the item in the folder note, undefined if not linked
+	lastOpened?: number  // the moment of the last opening of a file, relevant to sorting by opening history only
+	openCount?: number   // the number of openings of a file, relevant to sorting by opening history only
+	bookmarkRank?: number  // the position of the item among the bookmarks, undefined if not bookmarked
+	title?: string  // the title of a note or of a folder note, or the name if no title. Relevant to sorting by title only
 	isFolder: boolean
 	folder?: TFolder
 }
@@ -55,26 +89,59 @@ const TrueAlphabetical: boolean = true
 const ReverseOrder: boolean = true
 const StraightOrder: boolean = false
 
+// The items with equal titles are ordered by name
+const compareTitles = (a: FolderItemForSorting, b: FolderItemForSorting, reverseOrder: boolean): number => {
+	if (reverseOrder) {
+		[a, b] = [b, a]
+	}
+	return CollatorCompare(a.title ?? a.sortString, b.title ?? b.sortString) || CollatorCompare(a.sortString, b.sortString)
+}
+
+// Returns 0 if both values are equal or none of them is present
+const compareMetadataFieldValues = (valueA: string | undefined, valueB: string | undefined, reverseOrder: boolean, trueAlphabetical?: boolean): number => {
+	const collatorCompareFn: CollatorCompareFn = trueAlphabetical ? CollatorTrueAlphabeticalCompare : CollatorCompare
+	if (reverseOrder) {
+		[valueA, valueB] = [valueB, valueA]
+	}
+	if (valueA && valueB) {
+		return collatorCompareFn(valueA, valueB)
+	}
+	// Item with metadata goes before the w/o metadata
+	if (valueA) return reverseOrder ? 1 : -1
+	if (valueB) return reverseOrder ? -1 : 1
+	return 0
+}
+
+// Returns 0 if both items have the same rank or none of them has a rank. The items without a rank go last, regardless of the direction
+const compareRanks = (rankA: number | undefined, rankB: number | undefined, reverseOrder: boolean): number => {
+	if (rankA !== undefined && rankB !== undefined) {
+		return reverseOrder ? (rankB - rankA) : (rankA - rankB)
+	}
+	if (rankA !== undefined) return -1
+	if (rankB !== undefined) return 1
+	return 0
+}
+
+// The not linked items go last
+const compareFolderNoteLinkRanks = (a: FolderItemForSorting, b: FolderItemForSorting, reverseOrder: boolean): number => {
+	return compareRanks(a.folderNoteLinkRank, b.folderNoteLinkRank, reverseOrder)
+}
+
+// The not bookmarked items go last
+const compareBookmarkRanks = (a: FolderItemForSorting, b: FolderItemForSorting, reverseOrder: boolean): number => {
+	return compareRanks(a.bookmarkRank, b.bookmarkRank, reverseOrder)
+}
+
 const sorterByMetadataField:(reverseOrder?: boolean, trueAlphabetical?: boolean) => SorterFn = (reverseOrder: boolean, trueAlphabetical?: boolean) => {
 	const collatorCompareFn: CollatorCompareFn = trueAlphabetical ? CollatorTrueAlphabeticalCompare : CollatorCompare
 	return (a: FolderItemForSorting, b: FolderItemForSorting) => {
-		if (reverseOrder) {
-			[a, b] = [b, a]
-		}
-		if (a.metadataFieldValue && b.metadataFieldValue) {
-			const sortResult: number = collatorCompareFn(a.metadataFieldValue, b.metadataFieldValue)
-			if (sortResult === 0) {
-				// Fallback -> requested sort by metadata and both items have the same metadata value
-				return collatorCompareFn(a.sortString, b.sortString)    // switch to alphabetical sort by note/folder titles
-			} else {
-				return sortResult
-			}
+		const sortResult: number = compareMetadataFieldValues(a.metadataFieldValue, b.metadataFieldValue, reverseOrder, trueAlphabetical)
+		if (sortResult !== 0) {
+			return sortResult
 		}
-		// Item with metadata goes before the w/o metadata
-		if (a.metadataFieldValue) return reverseOrder ? 1 : -1
-		if (b.metadataFieldValue) return reverseOrder ? -1 : 1
-		// Fallback -> requested sort by metadata, yet none of two items contain it, use alphabetical by name
-		return collatorCompareFn(a.sortString, b.sortString)
+		// Fallback -> requested sort by metadata and both items have the same metadata value or none of them has it,
+		// switch to alphabetical sort by note/folder titles
+		return reverseOrder ? collatorCompareFn(b.sortString, a.sortString) : collatorCompareFn(a.sortString, b.sortString)
 	}
 }
 
@@ -95,18 +162,97 @@ export let Sorters: { [key in CustomSortOrder]: SorterFn } = {
 	[CustomSortOrder.byMetadataFieldTrueAlphabetical]: sorterByMetadataField(StraightOrder, TrueAlphabetical),
 	[CustomSortOrder.byMetadataFieldAlphabeticalReverse]: sorterByMetadataField(ReverseOrder),
 	[CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse]: sorterByMetadataField(ReverseOrder, TrueAlphabetical),
+	// The metadata values are already converted to their ranks in the enumeration, see getMetadataValueRank()
+	[CustomSortOrder.byMetadataFieldEnumeration]: sorterByMetadataField(StraightOrder),
+	[CustomSortOrder.byMetadataFieldEnumerationReverse]: sorterByMetadataField(ReverseOrder),
+	[CustomSortOrder.byBacklinks]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((a.backlinks ?? 0) - (b.backlinks ?? 0)),
+	[CustomSortOrder.byBacklinksAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.backlinks ?? 0) - (b.backlinks ?? 0),
+	[CustomSortOrder.byBacklinksReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((b.backlinks ?? 0) - (a.backlinks ?? 0)),
+	[CustomSortOrder.byBacklinksReverseAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (b.backlinks ?? 0) - (a.backlinks ?? 0),
+	[CustomSortOrder.byOutlinks]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((a.outlinks ?? 0) - (b.outlinks ?? 0)),
+	[CustomSortOrder.byOutlinksAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.outlinks ?? 0) - (b.outlinks ?? 0),
+	[CustomSortOrder.byOutlinksReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((b.outlinks ?? 0) - (a.outlinks ?? 0)),
+	[CustomSortOrder.byOutlinksReverseAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (b.outlinks ?? 0) - (a.outlinks ?? 0),
+	[CustomSortOrder.bySize]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((a.size ?? 0) - (b.size ?? 0)),
+	[CustomSortOrder.bySizeAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.size ?? 0) - (b.size ?? 0),
+	[CustomSortOrder.bySizeReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((b.size ?? 0) - (a.size ?? 0)),
+	[CustomSortOrder.bySizeReverseAdvanced]: (a: FolderItemForSorting, b: FolderItemForSorting) => (b.size ?? 0) - (a.size ?? 0),
+	[CustomSortOrder.byItemsCount]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.itemsCount ?? 0) - (b.itemsCount ?? 0),
+	[CustomSortOrder.byItemsCountReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (b.itemsCount ?? 0) - (a.itemsCount ?? 0),
+	[CustomSortOrder.byTitle]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareTitles(a, b, StraightOrder),
+	[CustomSortOrder.byTitleReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareTitles(a, b, ReverseOrder),
+	[CustomSortOrder.byFolderNoteLinks]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareFolderNoteLinkRanks(a, b, StraightOrder) || CollatorCompare(a.sortString, b.sortString),
+	[CustomSortOrder.byFolderNoteLinksReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareFolderNoteLinkRanks(a, b, ReverseOrder) || CollatorCompare(b.sortString, a.sortString),
+	[CustomSortOrder.byLastOpened]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((a.lastOpened ?? 0) - (b.lastOpened ?? 0)),
+	[CustomSortOrder.byLastOpenedReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((b.lastOpened ?? 0) - (a.lastOpened ?? 0)),
+	[CustomSortOrder.byOpenCount]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((a.openCount ?? 0) - (b.openCount ?? 0)),
+	[CustomSortOrder.byOpenCountReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => (a.isFolder && b.isFolder) ? CollatorCompare(a.sortString, b.sortString) : ((b.openCount ?? 0) - (a.openCount ?? 0)),
+	[CustomSortOrder.byBookmarks]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareBookmarkRanks(a, b, StraightOrder) || CollatorCompare(a.sortString, b.sortString),
+	[CustomSortOrder.byBookmarksReverse]: (a: FolderItemForSorting, b: FolderItemForSorting) => compareBookmarkRanks(a, b, ReverseOrder) || CollatorCompare(b.sortString, a.sortString),
 
 	// This is a fallback entry which should not be used - the plugin code should refrain from custom sorting at all
 	[CustomSortOrder.standardObsidian]: (a: FolderItemForSorting, b: FolderItemForSorting) => CollatorCompare(a.sortString, b.sortString),
 };
 
-function compareTwoItems(itA: FolderItemForSorting, itB: FolderItemForSorting, sortSpec: CustomSortSpec) {
+const AlphabeticalOrders = new Set<CustomSortOrder>([
+	CustomSortOrder.alphabetical,
+	CustomSortOrder.trueAlphabetical,
+	CustomSortOrder.alphabeticalReverse,
+	CustomSortOrder.trueAlphabeticalReverse
+])
+
+// Compares two items by one order of a chain of orders. The subsequent order of the chain is applied
+// only if this one considers the items equal. Hence, except for the last order of the chain:
+// - an alphabetical order compares only the regexp matched groups (if present), not the full names
+// - an order by metadata doesn't fall back to comparing the names
+// The last order of the chain behaves exactly as if it was the only one
+const compareByOneOrderOfChain = (a: FolderItemForSorting, b: FolderItemForSorting, order: CustomSortOrder, metadataValueIdx: number, isLast: boolean): number => {
+	if (isLast) {
+		if (metadataValueIdx === 0 || !isByMetadata(order)) {
+			return Sorters[order](a, b)
+		}
+	}
+	if (AlphabeticalOrders.has(order) && a.matchGroup !== undefined && b.matchGroup !== undefined) {
+		const collatorCompareFn: CollatorCompareFn = (order === CustomSortOrder.trueAlphabetical || order === CustomSortOrder.trueAlphabeticalReverse) ? CollatorTrueAlphabeticalCompare : CollatorCompare
+		return (order === CustomSortOrder.alphabeticalReverse || order === CustomSortOrder.trueAlphabeticalReverse) ?
+			collatorCompareFn(b.matchGroup, a.matchGroup) : collatorCompareFn(a.matchGroup, b.matchGroup)
+	}
+	if (isByMetadata(order)) {
+		const reverseOrder: boolean = order === CustomSortOrder.byMetadataFieldAlphabeticalReverse || order === CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse
+			|| order === CustomSortOrder.byMetadataFieldEnumerationReverse
+		const trueAlphabetical: boolean = order === CustomSortOrder.byMetadataFieldTrueAlphabetical || order === CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse
+		const valueA: string | undefined = metadataValueIdx === 0 ? a.metadataFieldValue : a.secondaryMetadataFieldValues?.[metadataValueIdx - 1]
+		const valueB: string | undefined = metadataValueIdx === 0 ? b.metadataFieldValue : b.secondaryMetadataFieldValues?.[metadataValueIdx - 1]
+		const sortResult: number = compareMetadataFieldValues(valueA, valueB, reverseOrder, trueAlphabetical)
+		if (sortResult !== 0 || !isLast) {
+			return sortResult
+		}
+		return reverseOrder ? CollatorCompare(b.sortString, a.sortString) : CollatorCompare(a.sortString, b.sortString)
+	}
+	if (isByFolderNoteLinks(order)) {   // Not the last one in the chain, hence no fallback to alphabetical
+		return compareFolderNoteLinkRanks(a, b, order === CustomSortOrder.byFolderNoteLinksReverse)
+	}
+	if (isByBookmarks(order)) {   // Not the last one in the chain, hence no fallback to alphabetical
+		return compareBookmarkRanks(a, b, order === CustomSortOrder.byBookmarksReverse)
+	}
+	return Sorters[order](a, b)
+}
+
+const compareByOrdersChain = (a: FolderItemForSorting, b: FolderItemForSorting, group: CustomSortGroup): number => {
+	const chain: Array<CustomSortOrder> = [group.order ?? CustomSortOrder.default, ...(group.secondaryOrders ?? []).map((secondary) => secondary.order)]
+	let sortResult: number = 0
+	for (let idx = 0; idx < chain.length && sortResult === 0; idx++) {
+		sortResult = compareByOneOrderOfChain(a, b, chain[idx], idx, idx === chain.length - 1)
+	}
+	return sortResult
+}
+
+export function compareTwoItems(itA: FolderItemForSorting, itB: FolderItemForSorting, sortSpec: CustomSortSpec) {
 	if (itA.groupIdx != undefined && itB.groupIdx != undefined) {
 		if (itA.groupIdx === itB.groupIdx) {
 			const group: CustomSortGroup | undefined = sortSpec.groups[itA.groupIdx]
-			const matchingGroupPresentOnBothSidesAndEqual: boolean = itA.matchGroup !== undefined && itA.matchGroup === itB.matchGroup
-			if (matchingGroupPresentOnBothSidesAndEqual && group.secondaryOrder) {
-				return Sorters[group.secondaryOrder ?? CustomSortOrder.default](itA, itB)
+			if (group?.secondaryOrders?.length) {
+				return compareByOrdersChain(itA, itB, group)
 			} else {
 				return Sorters[group?.order ?? CustomSortOrder.default](itA, itB)
 			}
@@ -128,7 +274,20 @@ const isFolder = (entry: TAbstractFile) => {
 
 const isByMetadata = (order: CustomSortOrder | undefined) => {
 	return order === CustomSortOrder.byMetadataFieldAlphabetical || order === CustomSortOrder.byMetadataFieldAlphabeticalReverse ||
-	       order === CustomSortOrder.byMetadataFieldTrueAlphabetical || order === CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse
+		order === CustomSortOrder.byMetadataFieldTrueAlphabetical || order === CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse ||
+		order === CustomSortOrder.byMetadataFieldEnumeration || order === CustomSortOrder.byMetadataFieldEnumerationReverse
+}
+
+const isByTitle = (order: CustomSortOrder | undefined) => {
+	return order === CustomSortOrder.byTitle || order === CustomSortOrder.byTitleReverse
+}
+
+const isByFolderNoteLinks = (order: CustomSortOrder | undefined) => {
+	return order === CustomSortOrder.byFolderNoteLinks || order === CustomSortOrder.byFolderNoteLinksReverse
+}
+
+const isByBookmarks = (order: CustomSortOrder | undefined) => {
+	return order === CustomSortOrder.byBookmarks || order === CustomSortOrder.byBookmarksReverse
 }
 
 export const DEFAULT_FOLDER_MTIME: number = 0
@@ -141,8 +300,17 @@ type Matched = boolean
 export const matchGroupRegex = (theRegex: RegExpSpec, nameForMatching: string): [Matched, RegexMatchedGroup, RegexFullMatch] => {
 	const match: RegExpMatchArray | null | undefined = theRegex.regex.exec(nameForMatching);
 	if (match) {
+		if (theRegex.normalizerFns) {
+			// Each normalized component is terminated with // (and padded with zeros to a fixed width)
+			// hence the concatenation of components compares exactly as the tuple of components
+			const components: Array<string> = theRegex.normalizerFns.map((normalizerFn: NormalizerFn, idx: number) => {
+				const component: string | undefined = match[idx + 1]
+				return component ? (normalizerFn(component) ?? '') : ''
+			})
+			return [true, components.join(''), match[0]]
+		}
 		const normalizer: NormalizerFn | undefined = theRegex.normalizerFn
-		const regexMatchedGroup: string | undefined = match[1]
+		const regexMatchedGroup: string | undefined = match[theRegex.matchGroupIdx ?? 1]
 		if (regexMatchedGroup) {
 			return [true, normalizer ? normalizer!(regexMatchedGroup)! : regexMatchedGroup, match[0]]
 		} else {
@@ -152,8 +320,450 @@ export const matchGroupRegex = (theRegex: RegExpSpec, nameForMatching: string):
 	return [false, undefined, undefined]
 }
 
+const getMetadataFieldValue = (entry: TFile | TFolder, metadataFieldName: string, spec: CustomSortSpec): string | undefined => {
+	if (spec._mCache) {
+		// For folders - scan metadata of 'folder note'
+		const notePathToScan: string = isFolder(entry) ? `${entry.path}/${entry.name}.md` : entry.path
+		const frontMatterCache: FrontMatterCache | undefined = spec._mCache.getCache(notePathToScan)?.frontmatter
+		return frontMatterCache?.[metadataFieldName]
+	}
+}
+
+const MetadataNumberRegex: RegExp = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$/i
+
+// Returns null if the value is neither a number nor a textual representation of a number
+export const parseMetadataNumber = (value: unknown): number | null => {
+	if (typeof value === 'number') {
+		return value
+	} else if (typeof value === 'string' && MetadataNumberRegex.test(value.trim())) {
+		return Number(value.trim())
+	}
+	return null
+}
+
+// ISO 8601 date with optional time and optional timezone, like 2023-12-01, 2023-12-01T09:30 or 2023-12-01 09:30:15+02:00
+const MetadataDateRegex: RegExp = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i
+
+// Returns the timestamp (in milliseconds) or null if the text is not a valid date
+// A date or date-time without a timezone is interpreted in the local time
+export const parseMetadataDate = (s: string): number | null => {
+	const match: RegExpMatchArray | null = s.trim().match(MetadataDateRegex)
+	if (!match) {
+		return null
+	}
+	const [, year, month, day, hours, minutes, seconds, fraction, timezone] = match
+	const [y, mo, d, h, mi, sec] = [year, month, day, hours, minutes, seconds].map((c) => c ? parseInt(c, 10) : 0)
+	const ms: number = fraction ? parseInt(fraction.padEnd(3, '0').substring(0, 3), 10) : 0
+	const daysInMonth: number = new Date(Date.UTC(y, mo, 0)).getUTCDate()
+	if (mo < 1 || mo > 12 || d < 1 || d > daysInMonth || h > 23 || mi > 59 || sec > 59) {
+		return null
+	}
+	if (timezone) {
+		const offsetMatch: RegExpMatchArray | null = timezone.match(/^([+-])(\d{2}):?(\d{2})$/)
+		const offsetInMinutes: number = offsetMatch ? (offsetMatch[1] === '-' ? -1 : 1) * (parseInt(offsetMatch[2], 10) * 60 + parseInt(offsetMatch[3], 10)) : 0
+		return Date.UTC(y, mo - 1, d, h, mi, sec, ms) - offsetInMinutes * 60 * 1000
+	} else {
+		return new Date(y, mo - 1, d, h, mi, sec, ms).getTime()
+	}
+}
+
+// Converts the value of a metadata field (as read from frontmatter) into the value to sort by.
+// Text values are used as-is, numbers and dates are converted to a fixed-width textual representation
+// which compares in numerical (or chronological) order.
+// Returns undefined for a missing value and null for a value which can't be interpreted as the declared type
+export const getMetadataValueSortingKey = (value: unknown, valueType?: MetadataValueType): string | null | undefined => {
+	if (value === undefined || value === null || value === '') {
+		return undefined
+	}
+	switch (valueType) {
+		case MetadataValueType.Number: {
+			const numericValue: number | null = parseMetadataNumber(value)
+			return numericValue !== null ? getNormalizedNumericValue(numericValue) : null
+		}
+		case MetadataValueType.Date: {
+			if (value instanceof Date) {
+				return getNormalizedNumericValue(value.getTime())
+			} else if (typeof value === 'string') {
+				const timestamp: number | null = parseMetadataDate(value)
+				return timestamp !== null ? getNormalizedNumericValue(timestamp) : null
+			}
+			return null
+		}
+		default:
+			return typeof value === 'string' ? value : `${value}`
+	}
+}
+
+// Converts the value of a metadata field into its rank in the enumeration, to sort by.
+// The values not enumerated explicitly share the same rank, and among them the alphabetical order applies
+// For a list of values the best (lowest) rank counts
+export const getMetadataValueRank = (value: unknown, enumeration: MetadataValuesEnumeration): string | undefined => {
+	if (value === undefined || value === null || value === '') {
+		return undefined
+	}
+	const values: Array<unknown> = Array.isArray(value) ? value : [value]
+	let bestRank: number | undefined
+	let bestRankValue: string = ''
+	values.forEach((v) => {
+		const text: string = `${v}`.trim()
+		const idx: number = enumeration.values.findIndex((enumerated) => enumerated.toLowerCase() === text.toLowerCase())
+		// Ranks of enumerated values leave room for the unknown values at their position
+		const rank: number = idx < 0 ? enumeration.unknownValuesIdx : (idx < enumeration.unknownValuesIdx ? idx : idx + 1)
+		if (bestRank === undefined || rank < bestRank) {
+			bestRank = rank
+			bestRankValue = idx < 0 ? text : ''
+		}
+	})
+	return bestRank === undefined ? undefined : `${prependWithZeros(`${bestRank}`, DEFAULT_NORMALIZATION_PLACES)}//${bestRankValue}`
+}
+
+const matchesSingleMetadataValue = (value: unknown, condition: MetadataValueCondition): boolean => {
+	const text: string = `${value}`.trim()
+	switch (condition.operator) {
+		case MetadataValueOperator.Equal:
+		case MetadataValueOperator.In:
+			return !!condition.values?.some((v) => v.toLowerCase() === text.toLowerCase())
+		case MetadataValueOperator.Less:
+		case MetadataValueOperator.LessOrEqual:
+		case MetadataValueOperator.Greater:
+		case MetadataValueOperator.GreaterOrEqual: {
+			const numericValue: number | null = parseMetadataNumber(value)
+			if (numericValue === null || condition.number === undefined) {
+				return false
+			}
+			switch (condition.operator) {
+				case MetadataValueOperator.Less: return numericValue < condition.number
+				case MetadataValueOperator.LessOrEqual: return numericValue <= condition.number
+				case MetadataValueOperator.Greater: return numericValue > condition.number
+				default: return numericValue >= condition.number
+			}
+		}
+		case MetadataValueOperator.Matches:
+			return !!condition.regex?.test(text)
+	}
+	return false
+}
+
+// The condition requires the metadata field to be present and not empty.
+// For a list of values, it is enough if one of them satisfies the condition,
+// except for the negated conditions (!= and not in), which require none of the values to be equal
+export const matchesMetadataValueCondition = (value: unknown, condition: MetadataValueCondition): boolean => {
+	if (value === undefined || value === null || value === '') {
+		return false
+	}
+	const values: Array<unknown> = Array.isArray(value) ? value : [value]
+	switch (condition.operator) {
+		case MetadataValueOperator.NotEqual:
+			return values.length > 0 && !values.some((v) => matchesSingleMetadataValue(v, {...condition, operator: MetadataValueOperator.Equal}))
+		case MetadataValueOperator.NotIn:
+			return values.length > 0 && !values.some((v) => matchesSingleMetadataValue(v, {...condition, operator: MetadataValueOperator.In}))
+		default:
+			return values.some((v) => matchesSingleMetadataValue(v, condition))
+	}
+}
+
+const FrontmatterTagsKeys: Array<string> = ['tags', 'tag']
+
+const normalizeTag = (tag: string): string => {
+	tag = tag.trim().toLowerCase()
+	return tag.startsWith('#') ? tag.substring(1) : tag
+}
+
+// The tags of a note, from frontmatter (a list or a text of comma or space separated tags) and inline ones.
+// Tags are case-insensitive, hence returned in lowercase and without the leading #
+export const getNoteTags = (metadata: CachedMetadata | null | undefined): Array<string> => {
+	const tags: Array<string> = metadata?.tags?.map((tagCache) => normalizeTag(tagCache.tag)) ?? []
+	FrontmatterTagsKeys.forEach((key) => {
+		const value: unknown = metadata?.frontmatter?.[key]
+		const values: Array<unknown> = Array.isArray(value) ? value : (typeof value === 'string' ? value.split(/[,\s]+/) : [])
+		values.forEach((v) => {
+			if (typeof v === 'string' && normalizeTag(v)) {
+				tags.push(normalizeTag(v))
+			}
+		})
+	})
+	return tags
+}
+
+export const DEFAULT_TITLE_SOURCES: Array<TitleSource> = [
+	{type: TitleSourceType.FirstHeading},
+	{type: TitleSourceType.Property, propertyName: 'title'},
+	{type: TitleSourceType.FirstAlias}
+]
+
+const FrontmatterAliasesKeys: Array<string> = ['aliases', 'alias']
+
+// The first non-empty text of a frontmatter value: a text, a number or a list of them
+const getFirstText = (value: unknown): string | undefined => {
+	const values: Array<unknown> = Array.isArray(value) ? value : [value]
+	for (let v of values) {
+		const text: string = (typeof v === 'string' || typeof v === 'number') ? `${v}`.trim() : ''
+		if (text) {
+			return text
+		}
+	}
+	return undefined
+}
+
+// The title of a note taken from the first of the sources which provides it
+export const getNoteTitle = (metadata: CachedMetadata | null | undefined, sources: Array<TitleSource>): string | undefined => {
+	for (let source of sources) {
+		let title: string | undefined
+		switch (source.type) {
+			case TitleSourceType.FirstHeading:
+				title = metadata?.headings?.find((heading) => heading.level === 1)?.heading.trim()
+				break
+			case TitleSourceType.Property:
+				title = getFirstText(metadata?.frontmatter?.[source.propertyName!])
+				break
+			case TitleSourceType.FirstAlias:
+				for (let key of FrontmatterAliasesKeys) {
+					const aliases: unknown = metadata?.frontmatter?.[key]
+					title = title ?? getFirstText(typeof aliases === 'string' ? aliases.split(',') : aliases)
+				}
+				break
+		}
+		if (title) {
+			return title
+		}
+	}
+	return undefined
+}
+
+// The sources of the title, if any order in the chain of the group is by title
+const getTitleSources = (group: CustomSortGroup | undefined): Array<TitleSource> | undefined => {
+	if (isByTitle(group?.order)) {
+		return group?.byTitleSources ?? DEFAULT_TITLE_SOURCES
+	}
+	const secondary: SecondaryOrder | undefined = group?.secondaryOrders?.find((secondary) => isByTitle(secondary.order))
+	return secondary ? (secondary.byTitleSources ?? DEFAULT_TITLE_SOURCES) : undefined
+}
+
+export type InvalidMetadataValueReporterFn = (entryPath: string, metadataFieldName: string, value: unknown, valueType: MetadataValueType) => void
+
+export type TimeWindowBoundaryReporterFn = (boundary: number) => void
+
 export interface Context {
 	starredPluginInstance?: Starred_PluginInstance
+	bookmarks?: Array<BookmarkedItem>
+	reportInvalidMetadataValue?: InvalidMetadataValueReporterFn
+	reportTimeWindowBoundary?: TimeWindowBoundaryReporterFn
+	now?: number    // to evaluate all items of a folder against the same moment
+}
+
+// The moment since which the items belong to the time window
+export const getTimeWindowStart = (timeWindow: TimeWindow, now: number): number => {
+	if (timeWindow.today) {
+		const midnight: Date = new Date(now)
+		midnight.setHours(0, 0, 0, 0)
+		return midnight.getTime()
+	}
+	return now - (timeWindow.durationMs ?? 0)
+}
+
+// The moment when the item of given time leaves the time window
+const getTimeWindowEnd = (timeWindow: TimeWindow, itemTime: number, now: number): number => {
+	if (timeWindow.today) {
+		const nextMidnight: Date = new Date(now)
+		nextMidnight.setHours(24, 0, 0, 0)
+		return nextMidnight.getTime()
+	}
+	return itemTime + (timeWindow.durationMs ?? 0)
+}
+
+// An invalid value (not matching the declared type) is reported and treated as missing
+const getTypedMetadataFieldValue = (entry: TFile | TFolder, metadataFieldName: string, valueType: MetadataValueType | undefined, spec: CustomSortSpec, ctx?: Context): string | undefined => {
+	const value: unknown = getMetadataFieldValue(entry, metadataFieldName, spec)
+	const sortingKey: string | null | undefined = getMetadataValueSortingKey(value, valueType)
+	if (sortingKey === null) {
+		ctx?.reportInvalidMetadataValue?.(entry.path, metadataFieldName, value, valueType!)
+		return undefined
+	}
+	return sortingKey
+}
+
+// Checks the item against the criterion of a single sorting group, regardless of the filesOnly and foldersOnly restrictions
+const matchGroup = (entry: TFile | TFolder, group: CustomSortGroup, spec: CustomSortSpec, ctx?: Context): [Matched, RegexMatchedGroup | null] => {
+	let determined: boolean = false
+	let matchedGroup: string | null | undefined = null
+	const aFolder: boolean = isFolder(entry)
+	const aFile: boolean = !aFolder
+	const basename: string = aFolder ? entry.name : (entry as TFile).basename
+	const nameForMatching: string = group.matchFilenameWithExt ? entry.name : basename;
+	switch (group.type) {
+		case CustomSortGroupType.ExactPrefix:
+			if (group.exactPrefix) {
+				if (nameForMatching.startsWith(group.exactPrefix)) {
+					determined = true;
+				}
+			} else { // regexp is involved
+				[determined, matchedGroup] = matchGroupRegex(group.regexPrefix!, nameForMatching)
+			}
+			break;
+		case CustomSortGroupType.ExactSuffix:
+			if (group.exactSuffix) {
+				if (nameForMatching.endsWith(group.exactSuffix)) {
+					determined = true;
+				}
+			} else { // regexp is involved
+				[determined, matchedGroup] = matchGroupRegex(group.regexSuffix!, nameForMatching)
+			}
+			break;
+		case CustomSortGroupType.ExactHeadAndTail:
+			if (group.exactPrefix && group.exactSuffix) {
+				if (nameForMatching.length >= group.exactPrefix.length + group.exactSuffix.length) {
+					if (nameForMatching.startsWith(group.exactPrefix) && nameForMatching.endsWith(group.exactSuffix)) {
+						determined = true;
+					}
+				}
+			} else if (group.exactPrefix || group.exactSuffix) { // regexp is involved as the prefix or as the suffix (not both)
+				if ((group.exactPrefix && nameForMatching.startsWith(group.exactPrefix)) ||
+					(group.exactSuffix && nameForMatching.endsWith(group.exactSuffix))) {
+					let fullMatch: string | undefined
+					[determined, matchedGroup, fullMatch] = matchGroupRegex(group.exactPrefix ? group.regexSuffix! : group.regexPrefix!, nameForMatching)
+					if (determined) {
+						// check for overlapping of prefix and suffix match (not allowed)
+						if ((fullMatch!.length + (group.exactPrefix?.length ?? 0) + (group.exactSuffix?.length ?? 0)) > nameForMatching.length) {
+							determined = false
+							matchedGroup = null // if it falls into Outsiders group, let it use title to sort
+						}
+					}
+				}
+			} else { // regexp is involved both as the prefix and as the suffix
+				const [matchedLeft, matchedGroupLeft, fullMatchLeft] = matchGroupRegex(group.regexPrefix!, nameForMatching)
+				const [matchedRight, matchedGroupRight, fullMatchRight] = matchGroupRegex(group.regexSuffix!, nameForMatching)
+				if (matchedLeft && matchedRight) {
+					// check for overlapping of prefix and suffix match (not allowed)
+					if ((fullMatchLeft!.length + fullMatchRight!.length) <= nameForMatching.length) {
+						determined = true
+						// Numeric sorting symbols on both sides form a tuple: prefix components first
+						matchedGroup = (matchedGroupLeft !== undefined && matchedGroupRight !== undefined)
+							? matchedGroupLeft + matchedGroupRight
+							: matchedGroupLeft ?? matchedGroupRight
+					}
+				}
+		}
+			break;
+		case CustomSortGroupType.ExactName:
+			if (group.exactText) {
+				if (nameForMatching === group.exactText) {
+					determined = true;
+				}
+			} else { // regexp is involved
+				[determined, matchedGroup] = matchGroupRegex(group.regexPrefix!, nameForMatching)
+			}
+			break
+		case CustomSortGroupType.HasMetadataField:
+			if (group.withMetadataFieldName) {
+				if (spec._mCache) {
+					// For folders - scan metadata of 'folder note'
+					const notePathToScan: string = aFile ? entry.path : `${entry.path}/${entry.name}.md`
+					const frontMatterCache: FrontMatterCache | undefined = spec._mCache.getCache(notePathToScan)?.frontmatter
+					const hasMetadata: boolean | undefined = frontMatterCache?.hasOwnProperty(group.withMetadataFieldName)
+
+					if (hasMetadata) {
+						determined = group.withMetadataValueCondition ?
+							matchesMetadataValueCondition(frontMatterCache![group.withMetadataFieldName], group.withMetadataValueCondition)
+							:
+							true
+					}
+				}
+			}
+			break
+		case CustomSortGroupType.StarredOnly:
+			if (ctx?.starredPluginInstance) {
+				let starred: boolean
+				if (aFile) {
+					starred = !!ctx.starredPluginInstance[StarredPlugin_findStarredFile_methodName]({path: entry.path})
+				} else { // aFolder
+					starred = determineStarredStatusOfFolder(entry as TFolder, ctx.starredPluginInstance)
+				}
+				if (starred) {
+					determined = true
+				}
+			} else if (ctx?.bookmarks) { // The Starred core plugin was replaced by Bookmarks in newer Obsidian versions
+				determined = getBookmarkRank(ctx.bookmarks, entry.path) !== undefined
+			}
+			break
+		case CustomSortGroupType.Bookmarked:
+			if (ctx?.bookmarks) {
+				determined = getBookmarkRank(ctx.bookmarks, entry.path, group.withBookmarksGroup) !== undefined
+			}
+			break
+		case CustomSortGroupType.Regexp:
+			[determined, matchedGroup] = matchGroupRegex(group.regexPrefix!, nameForMatching)
+			break
+		case CustomSortGroupType.HasTag:
+			if (group.withTag) {
+				if (spec._mCache) {
+					// For folders - scan tags of 'folder note'
+					const notePathToScan: string = aFile ? entry.path : `${entry.path}/${entry.name}.md`
+					const tags: Array<string> = getNoteTags(spec._mCache.getCache(notePathToScan))
+					if (tags.some((tag) => tag === group.withTag || (group.withNestedTags && tag.startsWith(`${group.withTag}/`)))) {
+						determined = true
+					}
+				}
+			}
+			break
+		case CustomSortGroupType.TimeWindow:
+			if (group.withinTimeWindow) {
+				const now: number = ctx?.now ?? Date.now()
+				const datesSource: DatesSource = getDatesSource(group, spec)
+				let mtime: number, ctime: number
+				if (aFile) {
+					[mtime, ctime] = getFileDates(entry as TFile, datesSource)
+				} else {    // For folders - the dates derived from the direct child files, the newest ones
+					[mtime, ctime] = determineDatesForFolder(entry as TFolder, now, datesSource)
+				}
+				const itemTime: number = group.withinTimeWindow.date === TimeWindowDate.Created ? ctime : mtime
+				if (itemTime >= getTimeWindowStart(group.withinTimeWindow, now)) {
+					determined = true
+					ctx?.reportTimeWindowBoundary?.(getTimeWindowEnd(group.withinTimeWindow, itemTime, now))
+				}
+			}
+			break
+		case CustomSortGroupType.MatchAll:
+			determined = true;
+			break
+		case CustomSortGroupType.Compound:
+			if (group.condition) {
+				[determined, matchedGroup] = matchGroupCondition(entry, group.condition, spec, ctx)
+			}
+			break
+	}
+	return [determined, matchedGroup]
+}
+
+// The evaluation stops as soon as the result is known (short-circuit), as some criteria are costly to check.
+// For numeric sorting symbols in the operands, the first regex matched group of the satisfied operands counts
+const matchGroupCondition = (entry: TFile | TFolder, condition: GroupCondition, spec: CustomSortSpec, ctx?: Context): [Matched, RegexMatchedGroup | null] => {
+	switch (condition.operator) {
+		case GroupConditionOperator.And: {
+			let matchedGroup: RegexMatchedGroup | null = null
+			for (let operand of condition.operands ?? []) {
+				const [matched, operandMatchedGroup] = matchGroupCondition(entry, operand, spec, ctx)
+				if (!matched) {
+					return [false, null]
+				}
+				matchedGroup = matchedGroup ?? operandMatchedGroup
+			}
+			return [true, matchedGroup]
+		}
+		case GroupConditionOperator.Or:
+			for (let operand of condition.operands ?? []) {
+				const [matched, operandMatchedGroup] = matchGroupCondition(entry, operand, spec, ctx)
+				if (matched) {
+					return [true, operandMatchedGroup]
+				}
+			}
+			return [false, null]
+		case GroupConditionOperator.Not: {
+			const [matched] = matchGroupCondition(entry, condition.operands![0], spec, ctx)
+			return [!matched, null]
+		}
+		default:
+			return condition.group ? matchGroup(entry, condition.group, spec, ctx) : [false, null]
+	}
 }
 
 export const determineSortingGroup = function (entry: TFile | TFolder, spec: CustomSortSpec, ctx?: Context): FolderItemForSorting {
@@ -161,10 +771,12 @@ export const determineSortingGroup = function (entry: TFile | TFolder, spec: Cus
 	let determined: boolean = false
 	let matchedGroup: string | null | undefined
 	let metadataValueToSortBy: string | undefined
+	let secondaryMetadataValuesToSortBy: Array<string | undefined> | undefined
+	let sizeToSortBy: number | undefined
+	let titleToSortBy: string | undefined
 	const aFolder: boolean = isFolder(entry)
 	const aFile: boolean = !aFolder
 	const entryAsTFile: TFile = entry as TFile
-	const basename: string = aFolder ? entry.name : entryAsTFile.basename
 
 	// When priorities come in play, the ordered list of groups to check could be shorter
 	//    than the actual full set of defined groups, because the outsiders group are not
@@ -176,98 +788,7 @@ export const determineSortingGroup = function (entry: TFile | TFolder, spec: Cus
 		const group: CustomSortGroup = spec.groups[groupIdx];
 		if (group.foldersOnly && aFile) continue;
 		if (group.filesOnly && aFolder) continue;
-		const nameForMatching: string = group.matchFilenameWithExt ? entry.name : basename;
-		switch (group.type) {
-			case CustomSortGroupType.ExactPrefix:
-				if (group.exactPrefix) {
-					if (nameForMatching.startsWith(group.exactPrefix)) {
-						determined = true;
-					}
-				} else { // regexp is involved
-					[determined, matchedGroup] = matchGroupRegex(group.regexPrefix!, nameForMatching)
-				}
-				break;
-			case CustomSortGroupType.ExactSuffix:
-				if (group.exactSuffix) {
-					if (nameForMatching.endsWith(group.exactSuffix)) {
-						determined = true;
-					}
-				} else { // regexp is involved
-					[determined, matchedGroup] = matchGroupRegex(group.regexSuffix!, nameForMatching)
-				}
-				break;
-			case CustomSortGroupType.ExactHeadAndTail:
-				if (group.exactPrefix && group.exactSuffix) {
-					if (nameForMatching.length >= group.exactPrefix.length + group.exactSuffix.length) {
-						if (nameForMatching.startsWith(group.exactPrefix) && nameForMatching.endsWith(group.exactSuffix)) {
-							determined = true;
-						}
-					}
-				} else if (group.exactPrefix || group.exactSuffix) { // regexp is involved as the prefix or as the suffix (not both)
-					if ((group.exactPrefix && nameForMatching.startsWith(group.exactPrefix)) ||
-						(group.exactSuffix && nameForMatching.endsWith(group.exactSuffix))) {
-						let fullMatch: string | undefined
-						[determined, matchedGroup, fullMatch] = matchGroupRegex(group.exactPrefix ? group.regexSuffix! : group.regexPrefix!, nameForMatching)
-						if (determined) {
-							// check for overlapping of prefix and suffix match (not allowed)
-							if ((fullMatch!.length + (group.exactPrefix?.length ?? 0) + (group.exactSuffix?.length ?? 0)) > nameForMatching.length) {
-								determined = false
-								matchedGroup = null // if it falls into Outsiders group, let it use title to sort
-							}
-						}
-					}
-				} else { // regexp is involved both as the prefix and as the suffix
-					const [matchedLeft, matchedGroupLeft, fullMatchLeft] = matchGroupRegex(group.regexPrefix!, nameForMatching)
-					const [matchedRight, matchedGroupRight, fullMatchRight] = matchGroupRegex(group.regexSuffix!, nameForMatching)
-					if (matchedLeft && matchedRight) {
-						// check for overlapping of prefix and suffix match (not allowed)
-						if ((fullMatchLeft!.length + fullMatchRight!.length) <= nameForMatching.length) {
-							determined = true
-							matchedGroup = matchedGroupLeft ?? matchedGroupRight
-						}
-					}
-			}
-				break;
-			case CustomSortGroupType.ExactName:
-				if (group.exactText) {
-					if (nameForMatching === group.exactText) {
-						determined = true;
-					}
-				} else { // regexp is involved
-					[determined, matchedGroup] = matchGroupRegex(group.regexPrefix!, nameForMatching)
-				}
-				break
-			case CustomSortGroupType.HasMetadataField:
-				if (group.withMetadataFieldName) {
-					if (spec._mCache) {
-						// For folders - scan metadata of 'folder note'
-						const notePathToScan: string = aFile ? entry.path : `${entry.path}/${entry.name}.md`
-						const frontMatterCache: FrontMatterCache | undefined = spec._mCache.getCache(notePathToScan)?.frontmatter
-						const hasMetadata: boolean | undefined = frontMatterCache?.hasOwnProperty(group.withMetadataFieldName)
-
-						if (hasMetadata) {
-							determined = true
-						}
-					}
-				}
-				break
-			case CustomSortGroupType.StarredOnly:
-				if (ctx?.starredPluginInstance) {
-					let starred: boolean
-					if (aFile) {
-						starred = !!ctx.starredPluginInstance[StarredPlugin_findStarredFile_methodName]({path: entry.path})
-					} else { // aFolder
-						starred = determineStarredStatusOfFolder(entry as TFolder, ctx.starredPluginInstance)
-					}
-					if (starred) {
-						determined = true
-					}
-				}
-				break
-			case CustomSortGroupType.MatchAll:
-				determined = true;
-				break
-		}
+		[determined, matchedGroup] = matchGroup(entry, group, spec, ctx)
 		if (determined) {
 			break; // No need to check other sorting groups
 		}
@@ -313,9 +834,13 @@ export const determineSortingGroup = function (entry: TFile | TFolder, spec: Cus
 		const group: CustomSortGroup = spec.groups[determinedGroupIdx];
 		if (isByMetadata(group?.order)) {
 			let metadataFieldName: string | undefined = group.byMetadataField
+			let metadataFieldType: MetadataValueType | undefined = group.byMetadataFieldType
+			let metadataFieldEnumeration: MetadataValuesEnumeration | undefined = group.byMetadataFieldEnumeration
 			if (!metadataFieldName) {
 				if (isByMetadata(spec.defaultOrder)) {
 					metadataFieldName = spec.byMetadataField
+					metadataFieldType = metadataFieldType ?? spec.byMetadataFieldType
+					metadataFieldEnumeration = metadataFieldEnumeration ?? spec.byMetadataFieldEnumeration
 				}
 			}
 			if (!metadataFieldName) {
@@ -325,28 +850,55 @@ export const determineSortingGroup = function (entry: TFile | TFolder, spec: Cus
 				metadataFieldName = DEFAULT_METADATA_FIELD_FOR_SORTING
 			}
 			if (metadataFieldName) {
-				if (spec._mCache) {
-					// For folders - scan metadata of 'folder note'
-					const notePathToScan: string = aFile ? entry.path : `${entry.path}/${entry.name}.md`
-					const frontMatterCache: FrontMatterCache | undefined = spec._mCache.getCache(notePathToScan)?.frontmatter
-					metadataValueToSortBy = frontMatterCache?.[metadataFieldName]
-				}
+				metadataValueToSortBy = metadataFieldEnumeration ?
+					getMetadataValueRank(getMetadataFieldValue(entry, metadataFieldName, spec), metadataFieldEnumeration)
+					:
+					getTypedMetadataFieldValue(entry, metadataFieldName, metadataFieldType, spec, ctx)
 			}
 		}
+		if (group?.secondaryOrders?.some((secondary) => isByMetadata(secondary.order))) {
+			secondaryMetadataValuesToSortBy = group.secondaryOrders.map((secondary) => {
+				if (!isByMetadata(secondary.order)) {
+					return undefined
+				}
+				const metadataFieldName: string = secondary.byMetadataField || group.withMetadataFieldName || DEFAULT_METADATA_FIELD_FOR_SORTING
+				return secondary.byMetadataFieldEnumeration ?
+					getMetadataValueRank(getMetadataFieldValue(entry, metadataFieldName, spec), secondary.byMetadataFieldEnumeration)
+					:
+					getTypedMetadataFieldValue(entry, metadataFieldName, secondary.byMetadataFieldType, spec, ctx)
+			})
+		}
+		if (aFile && sortOrderNeedsSize(group?.order, group?.secondaryOrders)) {
+			sizeToSortBy = entryAsTFile.stat.size
+		}
+		const titleSources: Array<TitleSource> | undefined = getTitleSources(group)
+		if (titleSources && spec._mCache) {
+			// For folders - the title of 'folder note'
+			const notePathToScan: string = aFile ? entry.path : `${entry.path}/${entry.name}.md`
+			titleToSortBy = getNoteTitle(spec._mCache.getCache(notePathToScan), titleSources) ?? entry.name
+		}
 	}
 
+	const [mtimeOfFile, ctimeOfFile]: [ModifiedTime, CreatedTime] = aFile ?
+		getFileDates(entryAsTFile, getDatesSource(determinedGroupIdx !== undefined ? spec.groups[determinedGroupIdx] : undefined, spec))
+		:
+		[DEFAULT_FOLDER_MTIME, DEFAULT_FOLDER_CTIME]
+
 	return {
 		// idx of the matched group or idx of Outsiders group or the largest index (= groups count+1)
 		groupIdx: determinedGroupIdx,
 		sortString: matchedGroup ? (matchedGroup + '//' + entry.name) : entry.name,
 		metadataFieldValue: metadataValueToSortBy,
+		secondaryMetadataFieldValues: secondaryMetadataValuesToSortBy,
 		matchGroup: matchedGroup ?? undefined,
 		isFolder: aFolder,
 		folder: aFolder ? (entry as TFolder) : undefined,
 		path: entry.path,
-		ctimeNewest: aFile ? entryAsTFile.stat.ctime : DEFAULT_FOLDER_CTIME,
-		ctimeOldest: aFile ? entryAsTFile.stat.ctime : DEFAULT_FOLDER_CTIME,
-		mtime: aFile ? entryAsTFile.stat.mtime : DEFAULT_FOLDER_MTIME
+		ctimeNewest: aFile ? ctimeOfFile : DEFAULT_FOLDER_CTIME,
+		ctimeOldest: aFile ? ctimeOfFile : DEFAULT_FOLDER_CTIME,
+		mtime: aFile ? mtimeOfFile : DEFAULT_FOLDER_MTIME,
+		size: sizeToSortBy,
+		title: titleToSortBy
 	}
 }
 
@@ -357,35 +909,121 @@ const SortOrderRequiringFolderDate = new Set<CustomSortOrder>([
 	CustomSortOrder.byCreatedTimeReverseAdvanced
 ])
 
-export const sortOrderNeedsFolderDates = (order: CustomSortOrder | undefined, secondary?: CustomSortOrder): boolean => {
+export const sortOrderNeedsFolderDates = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
 	// The CustomSortOrder.standardObsidian used as default because it doesn't require date on folders
 	return SortOrderRequiringFolderDate.has(order ?? CustomSortOrder.standardObsidian)
-		|| SortOrderRequiringFolderDate.has(secondary ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringFolderDate.has(secondary.order))
 }
 
 // Syntax sugar for readability
 export type ModifiedTime = number
 export type CreatedTimeNewest = number
 export type CreatedTimeOldest = number
+export type CreatedTime = number
+
+// The sources of dates of files, the frontmatter fields (if configured and present) take precedence over the file system
+export interface DatesSource {
+	createdFromMetadataField?: string
+	modifiedFromMetadataField?: string
+	mCache?: MetadataCache
+}
+
+export const getDatesSource = (group: CustomSortGroup | undefined, spec: CustomSortSpec): DatesSource => {
+	return {
+		createdFromMetadataField: group?.createdFromMetadataField ?? spec.createdFromMetadataField,
+		modifiedFromMetadataField: group?.modifiedFromMetadataField ?? spec.modifiedFromMetadataField,
+		mCache: spec._mCache
+	}
+}
+
+export const sortingSpecUsesMetadataDates = (spec: CustomSortSpec): boolean => {
+	return !!(spec.createdFromMetadataField || spec.modifiedFromMetadataField)
+		|| spec.groups.some((group) => !!(group.createdFromMetadataField || group.modifiedFromMetadataField))
+}
+
+const getMetadataDate = (file: TFile, metadataFieldName: string | undefined, mCache: MetadataCache | undefined): number | null => {
+	if (metadataFieldName && mCache) {
+		const value: unknown = mCache.getCache(file.path)?.frontmatter?.[metadataFieldName]
+		return typeof value === 'string' ? parseMetadataDate(value) : null
+	}
+	return null
+}
+
+export const getFileDates = (file: TFile, datesSource?: DatesSource): [ModifiedTime, CreatedTime] => {
+	return [
+		getMetadataDate(file, datesSource?.modifiedFromMetadataField, datesSource?.mCache) ?? file.stat.mtime,
+		getMetadataDate(file, datesSource?.createdFromMetadataField, datesSource?.mCache) ?? file.stat.ctime
+	]
+}
+
+// The dates of folders aggregated from subfolders ('advanced deep modified' and 'advanced deep created') are expensive
+// to determine for large folder trees, hence cached. The key is the path of the folder followed by the parameters
+// The cached values of a folder are valid until anything changes in the folder subtree, see invalidateFolderDatesCache()
+const deepFolderDatesCache: Map<string, [ModifiedTime, CreatedTimeNewest, CreatedTimeOldest]> = new Map()
+
+const FolderDatesCacheKeySeparator: string = '\n'
+
+const getFolderDatesCacheKey = (folder: TFolder, depth: number, datesSource?: DatesSource): string => {
+	return [folder.path, depth, datesSource?.modifiedFromMetadataField ?? '', datesSource?.createdFromMetadataField ?? ''].join(FolderDatesCacheKeySeparator)
+}
+
+const isSameOrAncestorOrDescendantPath = (folderPath: string, path: string): boolean => {
+	return folderPath === path || folderPath === '/' || path === '/' || path.startsWith(`${folderPath}/`) || folderPath.startsWith(`${path}/`)
+}
 
-export const determineDatesForFolder = (folder: TFolder, now: number): [ModifiedTime, CreatedTimeNewest, CreatedTimeOldest] => {
+// To be called when an item is created, modified, deleted or renamed (for both the old and the new path)
+// and when the metadata of a note changes, if the dates are taken from the metadata
+export const invalidateFolderDatesCache = (path?: string) => {
+	if (path === undefined) {
+		deepFolderDatesCache.clear()
+		return
+	}
+	Array.from(deepFolderDatesCache.keys()).forEach((key) => {
+		if (isSameOrAncestorOrDescendantPath(key.split(FolderDatesCacheKeySeparator)[0], path)) {
+			deepFolderDatesCache.delete(key)
+		}
+	})
+}
+
+// The depth is the number of levels of subfolders to take into account, zero means the direct child files only
+export const determineDatesForFolder = (folder: TFolder, now: number, datesSource?: DatesSource, depth: number = 0): [ModifiedTime, CreatedTimeNewest, CreatedTimeOldest] => {
+	const cacheKey: string | undefined = depth > 0 ? getFolderDatesCacheKey(folder, depth, datesSource) : undefined
+	const cachedDates: [ModifiedTime, CreatedTimeNewest, CreatedTimeOldest] | undefined = cacheKey ? deepFolderDatesCache.get(cacheKey) : undefined
+	if (cachedDates) {
+		return cachedDates
+	}
 	let mtimeOfFolder: ModifiedTime = DEFAULT_FOLDER_MTIME
 	let ctimeNewestOfFolder: CreatedTimeNewest = DEFAULT_FOLDER_CTIME
 	let ctimeOldestOfFolder: CreatedTimeOldest = now
+	let anyFile: boolean = false
+	const aggregate = (mtime: ModifiedTime, ctimeNewest: CreatedTimeNewest, ctimeOldest: CreatedTimeOldest) => {
+		anyFile = true
+		if (mtime > mtimeOfFolder) {
+			mtimeOfFolder = mtime
+		}
+		if (ctimeNewest > ctimeNewestOfFolder) {
+			ctimeNewestOfFolder = ctimeNewest
+		}
+		if (ctimeOldest < ctimeOldestOfFolder) {
+			ctimeOldestOfFolder = ctimeOldest
+		}
+	}
 	folder.children.forEach((item) => {
 		if (!isFolder(item)) {
-			const file: TFile = item as TFile
-			if (file.stat.mtime > mtimeOfFolder) {
-				mtimeOfFolder = file.stat.mtime
-			}
-			if (file.stat.ctime > ctimeNewestOfFolder) {
-				ctimeNewestOfFolder = file.stat.ctime
-			}
-			if (file.stat.ctime < ctimeOldestOfFolder) {
-				ctimeOldestOfFolder = file.stat.ctime
+			const [mtime, ctime]: [ModifiedTime, CreatedTime] = getFileDates(item as TFile, datesSource)
+			aggregate(mtime, ctime, ctime)
+		} else if (depth > 0) {
+			const [mtime, ctimeNewest, ctimeOldest] = determineDatesForFolder(item as TFolder, now, datesSource, depth - 1)
+			// A subfolder without any files (at the considered depth) doesn't contribute
+			if (mtime !== DEFAULT_FOLDER_MTIME || ctimeNewest !== DEFAULT_FOLDER_CTIME) {
+				aggregate(mtime, ctimeNewest, ctimeOldest)
 			}
 		}
 	})
+	// The fallback creation date depends on the current time, hence not cached
+	if (cacheKey && anyFile) {
+		deepFolderDatesCache.set(cacheKey, [mtimeOfFolder, ctimeNewestOfFolder, ctimeOldestOfFolder])
+	}
 	return [mtimeOfFolder, ctimeNewestOfFolder, ctimeOldestOfFolder]
 }
 
@@ -402,31 +1040,372 @@ export const getStarredPlugin = (app?: App): Starred_PluginInstance | undefined
 	}
 }
 
+export const BookmarksCorePluginId: string = 'bookmarks'
+
+export const getBookmarksPlugin = (app?: App): Bookmarks_PluginInstance | undefined => {
+	const bookmarksPlugin: InstalledPlugin | undefined = app?.internalPlugins?.getPluginById(BookmarksCorePluginId)
+	if (bookmarksPlugin && bookmarksPlugin.enabled && bookmarksPlugin.instance) {
+		const bookmarksPluginInstance: Bookmarks_PluginInstance = bookmarksPlugin.instance as Bookmarks_PluginInstance
+		// defensive programming, in case Obsidian changes its internal APIs
+		if (Array.isArray(bookmarksPluginInstance?.[BookmarksPlugin_items_collectionName])) {
+			return bookmarksPluginInstance
+		}
+	}
+}
+
+// A bookmarked file or folder, with the lowercase titles of the enclosing bookmarks groups, from the outermost
+export interface BookmarkedItem {
+	path: string
+	groups: Array<string>
+}
+
+// The bookmarked files and folders in the order of bookmarks, as presented by the Bookmarks core plugin
+export const flattenBookmarks = (items: Array<Bookmarks_BookmarkItem>, groups: Array<string> = []): Array<BookmarkedItem> => {
+	const bookmarked: Array<BookmarkedItem> = []
+	items?.forEach((item) => {
+		if ((item.type === BookmarkedFileType || item.type === BookmarkedFolderType) && item.path) {
+			bookmarked.push({path: item.path, groups: groups})
+		} else if (item.type === BookmarksGroupType && item.items) {
+			bookmarked.push(...flattenBookmarks(item.items, [...groups, (item.title ?? '').toLowerCase()]))
+		}
+	})
+	return bookmarked
+}
+
+// The position of the first bookmark of the item, optionally only among the ones within the bookmarks group (at any depth)
+export const getBookmarkRank = (bookmarks: Array<BookmarkedItem>, path: string, withinGroup?: string): number | undefined => {
+	const rank: number = bookmarks.findIndex((bookmarked) =>
+		bookmarked.path === path && (withinGroup === undefined || bookmarked.groups.includes(withinGroup)))
+	return rank >= 0 ? rank : undefined
+}
+
 export const determineStarredStatusOfFolder = (folder: TFolder, starredPluginInstance: Starred_PluginInstance): boolean => {
 	return folder.children.some((folderItem) => {
 		return !isFolder(folderItem) && starredPluginInstance[StarredPlugin_findStarredFile_methodName]({path: folderItem.path})
 	})
 }
 
+// The deepest of the advanced date orders of the group (including the secondary ones) applies
+export const getFolderDatesDepth = (group: CustomSortGroup): number => {
+	const depths: Array<number> = [
+		SortOrderRequiringFolderDate.has(group.order ?? CustomSortOrder.standardObsidian) ? group.folderDatesDepth ?? 0 : 0,
+		...(group.secondaryOrders ?? []).map((secondary) => SortOrderRequiringFolderDate.has(secondary.order) ? secondary.folderDatesDepth ?? 0 : 0)
+	]
+	return Math.max(...depths)
+}
+
 export const determineFolderDatesIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec) => {
 	const Now: number = Date.now()
 	folderItems.forEach((item) => {
 		const groupIdx: number | undefined = item.groupIdx
 		if (groupIdx !== undefined) {
-			const groupOrder: CustomSortOrder | undefined = sortingSpec.groups[groupIdx].order
-			if (sortOrderNeedsFolderDates(groupOrder)) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsFolderDates(group.order, group.secondaryOrders)) {
+				if (item.folder) {
+					[item.mtime, item.ctimeNewest, item.ctimeOldest] = determineDatesForFolder(item.folder, Now, getDatesSource(group, sortingSpec), getFolderDatesDepth(group))
+				}
+			}
+		}
+	})
+}
+
+const SortOrderRequiringLinksCounts = new Set<CustomSortOrder>([
+	CustomSortOrder.byBacklinks,
+	CustomSortOrder.byBacklinksAdvanced,
+	CustomSortOrder.byBacklinksReverse,
+	CustomSortOrder.byBacklinksReverseAdvanced,
+	CustomSortOrder.byOutlinks,
+	CustomSortOrder.byOutlinksAdvanced,
+	CustomSortOrder.byOutlinksReverse,
+	CustomSortOrder.byOutlinksReverseAdvanced
+])
+
+const SortOrderRequiringFolderLinksCounts = new Set<CustomSortOrder>([
+	CustomSortOrder.byBacklinksAdvanced,
+	CustomSortOrder.byBacklinksReverseAdvanced,
+	CustomSortOrder.byOutlinksAdvanced,
+	CustomSortOrder.byOutlinksReverseAdvanced
+])
+
+export const sortOrderNeedsLinksCounts = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return SortOrderRequiringLinksCounts.has(order ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringLinksCounts.has(secondary.order))
+}
+
+export const sortOrderNeedsFolderLinksCounts = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return SortOrderRequiringFolderLinksCounts.has(order ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringFolderLinksCounts.has(secondary.order))
+}
+
+// Syntax sugar for readability
+export type ResolvedLinks = Record<string, Record<string, number>>  // source path -> target path -> number of links
+export type BacklinksCount = number
+export type OutlinksCount = number
+
+// The number of distinct notes linking to each note, the links of a note to itself don't count
+export const countBacklinks = (resolvedLinks: ResolvedLinks): Record<string, BacklinksCount> => {
+	const backlinksCounts: Record<string, BacklinksCount> = {}
+	Object.keys(resolvedLinks).forEach((sourcePath) => {
+		Object.keys(resolvedLinks[sourcePath]).forEach((targetPath) => {
+			if (targetPath !== sourcePath) {
+				backlinksCounts[targetPath] = (backlinksCounts[targetPath] ?? 0) + 1
+			}
+		})
+	})
+	return backlinksCounts
+}
+
+// The number of distinct notes the note links to, the links of a note to itself don't count
+export const countOutlinks = (path: string, resolvedLinks: ResolvedLinks): OutlinksCount => {
+	return Object.keys(resolvedLinks[path] ?? {}).filter((targetPath) => targetPath !== path).length
+}
+
+export const determineLinksCountsForFolder = (folder: TFolder, backlinksCounts: Record<string, BacklinksCount>, resolvedLinks: ResolvedLinks): [BacklinksCount, OutlinksCount] => {
+	let backlinksOfFolder: BacklinksCount = 0
+	let outlinksOfFolder: OutlinksCount = 0
+	folder.children.forEach((item) => {
+		if (!isFolder(item)) {
+			backlinksOfFolder += backlinksCounts[item.path] ?? 0
+			outlinksOfFolder += countOutlinks(item.path, resolvedLinks)
+		}
+	})
+	return [backlinksOfFolder, outlinksOfFolder]
+}
+
+export const determineLinksCountsIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec) => {
+	const resolvedLinks: ResolvedLinks | undefined = sortingSpec._mCache?.resolvedLinks
+	if (!resolvedLinks) {
+		return
+	}
+	let backlinksCounts: Record<string, BacklinksCount> | undefined  // Costly, hence determined lazily, only once
+	folderItems.forEach((item) => {
+		const groupIdx: number | undefined = item.groupIdx
+		if (groupIdx !== undefined) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsLinksCounts(group.order, group.secondaryOrders)) {
+				backlinksCounts = backlinksCounts ?? countBacklinks(resolvedLinks)
+				if (!item.isFolder) {
+					item.backlinks = backlinksCounts[item.path] ?? 0
+					item.outlinks = countOutlinks(item.path, resolvedLinks)
+				} else if (item.folder && sortOrderNeedsFolderLinksCounts(group.order, group.secondaryOrders)) {
+					[item.backlinks, item.outlinks] = determineLinksCountsForFolder(item.folder, backlinksCounts, resolvedLinks)
+				}
+			}
+		}
+	})
+}
+
+const SortOrderRequiringSize = new Set<CustomSortOrder>([
+	CustomSortOrder.bySize,
+	CustomSortOrder.bySizeAdvanced,
+	CustomSortOrder.bySizeReverse,
+	CustomSortOrder.bySizeReverseAdvanced
+])
+
+const SortOrderRequiringFolderSize = new Set<CustomSortOrder>([
+	CustomSortOrder.bySizeAdvanced,
+	CustomSortOrder.bySizeReverseAdvanced,
+	CustomSortOrder.byItemsCount,
+	CustomSortOrder.byItemsCountReverse
+])
+
+export const sortOrderNeedsSize = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return SortOrderRequiringSize.has(order ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringSize.has(secondary.order))
+}
+
+export const sortOrderNeedsFolderSize = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return SortOrderRequiringFolderSize.has(order ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringFolderSize.has(secondary.order))
+}
+
+// Syntax sugar for readability
+export type Size = number
+export type ItemsCount = number
+
+// Recursive, all nested files and folders are taken into account
+export const determineSizeForFolder = (folder: TFolder): [Size, ItemsCount] => {
+	let sizeOfFolder: Size = 0
+	let itemsCountOfFolder: ItemsCount = 0
+	folder.children.forEach((item) => {
+		itemsCountOfFolder++
+		if (isFolder(item)) {
+			const [sizeOfSubfolder, itemsCountOfSubfolder] = determineSizeForFolder(item as TFolder)
+			sizeOfFolder += sizeOfSubfolder
+			itemsCountOfFolder += itemsCountOfSubfolder
+		} else {
+			sizeOfFolder += (item as TFile).stat.size
+		}
+	})
+	return [sizeOfFolder, itemsCountOfFolder]
+}
+
+export const determineFolderSizesIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec) => {
+	folderItems.forEach((item) => {
+		const groupIdx: number | undefined = item.groupIdx
+		if (groupIdx !== undefined) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsFolderSize(group.order, group.secondaryOrders)) {
 				if (item.folder) {
-					[item.mtime, item.ctimeNewest, item.ctimeOldest] = determineDatesForFolder(item.folder, Now)
+					[item.size, item.itemsCount] = determineSizeForFolder(item.folder)
 				}
 			}
 		}
 	})
 }
 
+export const sortOrderNeedsFolderNoteLinks = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return isByFolderNoteLinks(order) || !!secondaryOrders?.some((secondary) => isByFolderNoteLinks(secondary.order))
+}
+
+// Path of the link target -> position of its first occurrence among the links and embeds of the folder note
+export const getFolderNoteLinkRanks = (folder: TFolder, mCache: MetadataCache): Record<string, number> => {
+	const folderNotePath: string = `${folder.path}/${folder.name}.md`
+	const metadata: CachedMetadata | null = mCache.getCache(folderNotePath)
+	const references: Array<ReferenceCache> = [...(metadata?.links ?? []), ...(metadata?.embeds ?? [])]
+		.sort((a, b) => a.position.start.offset - b.position.start.offset)
+	const ranks: Record<string, number> = {}
+	let rank: number = 0
+	references.forEach((reference) => {
+		const linkpath: string = reference.link.split('#')[0]  // skip the reference to a heading or a block
+		const target: TFile | null = linkpath ? mCache.getFirstLinkpathDest(linkpath, folderNotePath) : null
+		if (target && ranks[target.path] === undefined) {
+			ranks[target.path] = rank++
+		}
+	})
+	return ranks
+}
+
+export const determineFolderNoteLinkRanksIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec, folder: TFolder) => {
+	if (!sortingSpec._mCache) {
+		return
+	}
+	let ranks: Record<string, number> | undefined  // Determined lazily, only once
+	folderItems.forEach((item) => {
+		const groupIdx: number | undefined = item.groupIdx
+		if (groupIdx !== undefined) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsFolderNoteLinks(group.order, group.secondaryOrders)) {
+				ranks = ranks ?? getFolderNoteLinkRanks(folder, sortingSpec._mCache!)
+				// For folders - a link to their 'folder note' counts
+				item.folderNoteLinkRank = ranks[item.folder ? `${item.path}/${item.folder.name}.md` : item.path]
+			}
+		}
+	})
+}
+
+const isNote = (item: FolderItemForSorting): boolean => {
+	return !item.isFolder && item.path.toLowerCase().endsWith('.md')
+}
+
+const isAttachment = (item: FolderItemForSorting): boolean => {
+	return !item.isFolder && !isNote(item)
+}
+
+// The attachments (non-markdown files) embedded in a note are moved right after the note, in the order they were sorted,
+// an attachment embedded in more notes goes after the first of them.
+// The not embedded attachments go to the end, unless they belong to a sorting group other than Outsiders
+export const placeAttachmentsNextToNotes = (sortedItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec): Array<FolderItemForSorting> => {
+	const mCache: MetadataCache | undefined = sortingSpec._mCache
+	if (!mCache) {
+		return sortedItems
+	}
+	const attachmentsPaths: Set<string> = new Set(sortedItems.filter(isAttachment).map((item) => item.path))
+	const embeddingNoteOf: Record<string, string> = {}
+	sortedItems.filter(isNote).forEach((note) => {
+		mCache.getCache(note.path)?.embeds?.forEach((embed) => {
+			const linkpath: string = embed.link.split('#')[0]
+			const target: TFile | null = linkpath ? mCache.getFirstLinkpathDest(linkpath, note.path) : null
+			if (target && attachmentsPaths.has(target.path) && embeddingNoteOf[target.path] === undefined) {
+				embeddingNoteOf[target.path] = note.path
+			}
+		})
+	})
+	const attachmentsOfNote: Record<string, Array<FolderItemForSorting>> = {}
+	sortedItems.forEach((item) => {
+		const notePath: string | undefined = embeddingNoteOf[item.path]
+		if (notePath !== undefined) {
+			attachmentsOfNote[notePath] = (attachmentsOfNote[notePath] ?? []).concat(item)
+		}
+	})
+	const result: Array<FolderItemForSorting> = []
+	const notEmbeddedAttachments: Array<FolderItemForSorting> = []
+	sortedItems.forEach((item) => {
+		if (embeddingNoteOf[item.path] !== undefined) {
+			return  // already placed after the embedding note
+		}
+		if (isAttachment(item)) {
+			const group: CustomSortGroup | undefined = item.groupIdx !== undefined ? sortingSpec.groups[item.groupIdx] : undefined
+			if (!group || group.type === CustomSortGroupType.Outsiders) {
+				notEmbeddedAttachments.push(item)
+				return
+			}
+		}
+		result.push(item, ...(attachmentsOfNote[item.path] ?? []))
+	})
+	return result.concat(notEmbeddedAttachments)
+}
+
+const SortOrderRequiringOpenHistory = new Set<CustomSortOrder>([
+	CustomSortOrder.byLastOpened,
+	CustomSortOrder.byLastOpenedReverse,
+	CustomSortOrder.byOpenCount,
+	CustomSortOrder.byOpenCountReverse
+])
+
+export const sortOrderNeedsOpenHistory = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return SortOrderRequiringOpenHistory.has(order ?? CustomSortOrder.standardObsidian)
+		|| !!secondaryOrders?.some((secondary) => SortOrderRequiringOpenHistory.has(secondary.order))
+}
+
+export const sortingSpecNeedsOpenHistory = (spec: CustomSortSpec): boolean => {
+	return spec.groups.some((group) => sortOrderNeedsOpenHistory(group.order, group.secondaryOrders))
+}
+
+export const determineOpenHistoryIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec) => {
+	const openHistory: OpenHistory | undefined = sortingSpec._openHistory
+	if (!openHistory) {
+		return
+	}
+	folderItems.forEach((item) => {
+		const groupIdx: number | undefined = item.groupIdx
+		if (groupIdx !== undefined && !item.isFolder) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsOpenHistory(group.order, group.secondaryOrders)) {
+				[item.lastOpened, item.openCount] = openHistory[item.path] ?? [0, 0]
+			}
+		}
+	})
+}
+
+export const sortOrderNeedsBookmarks = (order: CustomSortOrder | undefined, secondaryOrders?: Array<SecondaryOrder>): boolean => {
+	return isByBookmarks(order) || !!secondaryOrders?.some((secondary) => isByBookmarks(secondary.order))
+}
+
+export const determineBookmarkRanksIfNeeded = (folderItems: Array<FolderItemForSorting>, sortingSpec: CustomSortSpec, bookmarks: Array<BookmarkedItem> | undefined) => {
+	if (!bookmarks) {
+		return
+	}
+	folderItems.forEach((item) => {
+		const groupIdx: number | undefined = item.groupIdx
+		if (groupIdx !== undefined) {
+			const group: CustomSortGroup = sortingSpec.groups[groupIdx]
+			if (sortOrderNeedsBookmarks(group.order, group.secondaryOrders)) {
+				item.bookmarkRank = getBookmarkRank(bookmarks, item.path)
+			}
+		}
+	})
+}
+
 export const folderSort = function (sortingSpec: CustomSortSpec, order: string[]) {
 	let fileExplorer = this.fileExplorer
 	sortingSpec._mCache = sortingSpec.plugin?.app.metadataCache
 	const starredPluginInstance: Starred_PluginInstance | undefined = getStarredPlugin(sortingSpec?.plugin?.app)
+	const bookmarksPluginInstance: Bookmarks_PluginInstance | undefined = getBookmarksPlugin(sortingSpec?.plugin?.app)
+	const bookmarks: Array<BookmarkedItem> | undefined = bookmarksPluginInstance ? flattenBookmarks(bookmarksPluginInstance[BookmarksPlugin_items_collectionName]) : undefined
+	const invalidMetadataValues: Array<string> = []
+	const now: number = Date.now()
+	let nextTimeWindowBoundary: number | undefined
 
 	const folderItems: Array<FolderItemForSorting> = (sortingSpec.itemsToHide ?
 		this.file.children.filter((entry: TFile | TFolder) => {
@@ -436,7 +1415,21 @@ export const folderSort = function (sortingSpec: CustomSortSpec, order: string[]
 		this.file.children)
 		.map((entry: TFile | TFolder) => {
 			const itemForSorting: FolderItemForSorting = determineSortingGroup(entry, sortingSpec, {
-				starredPluginInstance: starredPluginInstance
+				starredPluginInstance: starredPluginInstance,
+				bookmarks: bookmarks,
+				reportInvalidMetadataValue: (entryPath: string, metadataFieldName: string, value: unknown, valueType: MetadataValueType) => {
+					const problem: string = `${entryPath}: ${metadataFieldName} = ${JSON.stringify(value)} (expected ${MetadataValueType[valueType].toLowerCase()})`
+					// The folders are re-sorted often, hence each problem is reported only once per parsing of the sorting spec
+					sortingSpec._reportedInvalidMetadataValues = sortingSpec._reportedInvalidMetadataValues ?? new Set<string>()
+					if (!sortingSpec._reportedInvalidMetadataValues.has(problem)) {
+						sortingSpec._reportedInvalidMetadataValues.add(problem)
+						invalidMetadataValues.push(problem)
+					}
+				},
+				reportTimeWindowBoundary: (boundary: number) => {
+					nextTimeWindowBoundary = Math.min(boundary, nextTimeWindowBoundary ?? boundary)
+				},
+				now: now
 			})
 			return itemForSorting
 		})
@@ -444,11 +1437,30 @@ export const folderSort = function (sortingSpec: CustomSortSpec, order: string[]
 	// Finally, for advanced sorting by modified date, for some folders the modified date has to be determined
 	determineFolderDatesIfNeeded(folderItems, sortingSpec)
 
+	// Similarly, for sorting by the number of links
+	determineLinksCountsIfNeeded(folderItems, sortingSpec)
+
+	// Similarly, for sorting by the size of folders
+	determineFolderSizesIfNeeded(folderItems, sortingSpec)
+
+	// Similarly, for sorting in the order of links in the folder note
+	determineFolderNoteLinkRanksIfNeeded(folderItems, sortingSpec, this.file)
+
+	// Similarly, for sorting by the history of opening files
+	determineOpenHistoryIfNeeded(folderItems, sortingSpec)
+
+	// Similarly, for sorting in the order of bookmarks
+	determineBookmarkRanksIfNeeded(folderItems, sortingSpec, bookmarks)
+
+	if (invalidMetadataValues.length > 0) {
+		console.warn(`custom-sort: metadata values of unexpected type in folder ${this.file.path}, treated as missing:\n${invalidMetadataValues.join('\n')}`)
+	}
+
 	folderItems.sort(function (itA: FolderItemForSorting, itB: FolderItemForSorting) {
 		return compareTwoItems(itA, itB, sortingSpec);
 	});
 
-	const items = folderItems
+	const items = (sortingSpec.attachmentsNextToNotes ? placeAttachmentsNextToNotes(folderItems, sortingSpec) : folderItems)
 		.map((item: FolderItemForSorting) => fileExplorer.fileItems[item.path])
 
 	if (requireApiVersion && requireApiVersion("0.15.0")) {
@@ -457,7 +1469,10 @@ export const folderSort = function (sortingSpec: CustomSortSpec, order: string[]
 		this.children = items;
 	}
 
+	sortingSpec._nextTimeWindowBoundary = nextTimeWindowBoundary
+
 	// release risky references
 	sortingSpec._mCache = undefined
+	sortingSpec._openHistory = undefined
 	sortingSpec.plugin = undefined
 };
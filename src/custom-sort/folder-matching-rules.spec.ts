@@ -118,3 +118,18 @@ describe('folderMatch', () => {
 		expect(result).toEqual({errorMsg: "Duplicate wildcard '*' specification for Archive/2019/*"})
 	})
 })
+
+describe('someRule', () => {
+	it('should check the rules at all levels of the tree', () => {
+		const matcher: FolderWildcardMatching<SortingSpec> = createMockMatcherRichVersion()
+		expect(matcher.someRule((rule) => rule === '00 /...')).toBe(true)
+		expect(matcher.someRule((rule) => rule === '0 /*')).toBe(true)
+		expect(matcher.someRule((rule) => rule === '3 /Reviews/daily/a/.../')).toBe(true)
+		expect(matcher.someRule((rule) => rule === '4 Reviews/daily/a/*')).toBe(true)
+		expect(matcher.someRule((rule) => rule === 'Unknown')).toBe(false)
+	})
+	it('should return false for no rules', () => {
+		const matcher: FolderWildcardMatching<SortingSpec> = new FolderWildcardMatching()
+		expect(matcher.someRule(() => true)).toBe(false)
+	})
+})
@@ -113,4 +113,14 @@ export class FolderWildcardMatching<SortingSpec> {
 			}
 		}
 	}
+
+	// Checks all the defined rules, including the ones shadowed by more specific rules
+	someRule = (predicate: (rule: SortingSpec) => boolean): boolean => {
+		const someRuleInNode = (node: FolderMatchingTreeNode<SortingSpec>): boolean => {
+			return (node.matchChildren !== undefined && predicate(node.matchChildren))
+				|| (node.matchAll !== undefined && predicate(node.matchAll))
+				|| Object.values(node.subtree).some(someRuleInNode)
+		}
+		return someRuleInNode(this.tree)
+	}
 }
@@ -8,7 +8,24 @@ import {
 	CompoundNumberDashRegex,
 	RomanNumberRegex,
 	CompoundRomanNumberDotRegex,
-	CompoundRomanNumberDashRegex
+	CompoundRomanNumberDashRegex,
+	DateYMDDashRegex,
+	DateDMYDotRegex,
+	DateMonthNameDYRegex,
+	DateDMonthNameYRegex,
+	DateYWDashRegex,
+	getNormalizedDate,
+	LetterCounterRegex,
+	CompoundAlphanumericDotRegex,
+	letterCounterToIntStr,
+	getNormalizedLetterCounter,
+	getNormalizedCompoundAlphanumeric,
+	SemverRegex,
+	getNormalizedSemver,
+	DecimalNumberRegex,
+	NumberWithUnitRegex,
+	getNormalizedDecimal,
+	getNormalizedNumberWithUnit
 } from "./matchers";
 
 describe('Plain numbers regexp', () => {
@@ -321,3 +338,270 @@ describe('getNormalizedRomanNumber', () => {
 		expect(getNormalizedRomanNumber(s, separator, LEN)).toBe(out)
 	})
 })
+
+describe('Letter counter regexp', () => {
+	it.each([
+		['', null],
+		[' a)', 'a'], // leading spaces are swallowed
+		['aa) Lorem', 'aa'],
+		['B.', 'B'],
+		['1)', null],
+	])('>%s< should return %s', (s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(LetterCounterRegex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('Compound alphanumeric regexp', () => {
+	it.each([
+		['', null],
+		[' 1', '1'], // leading spaces are swallowed
+		['1a', '1a'],
+		['1b) Lorem', '1b'],
+		['2a.iii ipsum', '2a.iii'],
+		['10.b.2', '10.b.2'],
+		['2a.', '2a'], // trailing dot is not swallowed
+		['a1', null],
+	])('>%s< should return %s', (s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(CompoundAlphanumericDotRegex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('letterCounterToIntStr', () => {
+	it.each([
+		['a', '1'],
+		['B', '2'],
+		['z', '26'],
+		['aa', '27'],
+		['az', '52'],
+		['ba', '53'],
+		['zz', '702'],
+		['aaa', '703'],
+	])('%s should be %s', (s: string, out: string) => {
+		expect(letterCounterToIntStr(s)).toBe(out)
+	})
+})
+
+describe('getNormalizedLetterCounter', () => {
+	const LEN = 5
+	it.each([
+		['a', '00001//'],
+		['Z', '00026//'],
+		['aa', '00027//'],
+	])('>%s< should become %s', (s: string, out: string) => {
+		expect(getNormalizedLetterCounter(s, LEN)).toBe(out)
+	})
+})
+
+describe('getNormalizedCompoundAlphanumeric', () => {
+	const LEN = 5
+	it.each([
+		['1', '00001//'],
+		['1a', '00001|00001//'],
+		['12b', '00012|00002//'],
+		['2a.iii', '00002|00001|00003//'],
+		['2a.iv', '00002|00001|00004//'],
+		['2.c', '00002|00003//'],  // letters directly after a number are a letter counter, not a Roman number
+		['2.c.1', '00002|00003|00001//'],
+		['1aa', '00001|00027//'],
+		['1a.b', '00001|00001|00002//'],  // letters other than Roman digits after letters are a letter counter
+		['1a.c', '00001|00001|00100//'],  // ... and the Roman digits only are a Roman number
+		['1a.xi', '00001|00001|00011//'],
+	])('>%s< should become %s', (s: string, out: string) => {
+		expect(getNormalizedCompoundAlphanumeric(s, LEN)).toBe(out)
+	})
+})
+
+describe('Semver regexp', () => {
+	it.each([
+		['', null],
+		[' 1.10.0', '1.10.0'], // leading spaces are swallowed
+		['1.9.3-beta.2 notes', '1.9.3-beta.2'],
+		['1.0.0-rc-1+build.5', '1.0.0-rc-1+build.5'],
+		['1.0', null],
+	])('>%s< should return %s', (s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(SemverRegex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('getNormalizedSemver', () => {
+	const LEN = 3
+	it.each([
+		['1.10.0', '001|010|000|1//'],
+		['1.9.3-beta.2', '001|009|003|0|xgcgfhegb|002//'],
+		['1.0.0-alpha', '001|000|000|0|xgbgmhagigb//'],
+		['1.0.0+build.7', '001|000|000|1//'],  // build metadata is ignored
+		['1.0.0-rc-1', '001|000|000|0|xhcgdcndb//'],
+		['1.0.0-rc2', '001|000|000|0|xhcgddc//'],
+		['1.0.0-RC2', '001|000|000|0|xfceddc//'],
+		['1.0', null],  // Invalid case, Regexp on matcher in the caller should guard against this
+	])('>%s< should become %s', (s: string, out: string | null) => {
+		expect(getNormalizedSemver(s, LEN)).toBe(out)
+	})
+})
+
+describe('Decimal number regexp', () => {
+	it.each([
+		['', null],
+		[' -3 Basement', '-3'], // leading spaces are swallowed
+		['2.75 Ratio', '2.75'],
+		['+1.5', '+1.5'],
+		['3.', '3'],
+		['- 3', null],
+	])('>%s< should return %s', (s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(DecimalNumberRegex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('Number with unit regexp', () => {
+	it.each([
+		['', null],
+		[' 10k Users', '10k'], // leading spaces are swallowed
+		['512MB Dump', '512MB'],
+		['2.5GiB', '2.5GiB'],
+		['100 B', '100'],
+		['k10', null],
+	])('>%s< should return %s', (s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(NumberWithUnitRegex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('getNormalizedDecimal', () => {
+	const LEN = 3
+	it.each([
+		['0', '1|00|000|000//'],
+		['-0', '1|00|000|000//'],
+		['2.5', '1|01|002|500//'],
+		['+2.5', '1|01|002|500//'],
+		['2.75', '1|01|002|750//'],
+		['-2.5', '0|98|997|499//'],
+		['-2.75', '0|98|997|249//'],
+		['-10', '0|97|989|999//'],
+		['0012', '1|02|012|000//'],  // leading zeros don't count
+		['123456', '1|06|123456|000//'],  // the integer part longer than the fixed width
+		['-123456', '0|93|876543|999//'],
+		['1.23456', '1|01|001|234//'], // fractional part beyond the fixed width is truncated
+		['abc', null],
+	])('>%s< should become %s', (s: string, out: string | null) => {
+		expect(getNormalizedDecimal(s, LEN)).toBe(out)
+	})
+	it('should produce keys which preserve the numerical order', () => {
+		const numbers: Array<string> = ['2.5', '-2.5', '0', '-10', '10', '-2.75', '2.75', '-3']
+		const keys: Array<string | null> = numbers.map((n) => getNormalizedDecimal(n))
+		const expectedOrder: Array<string | null> = ['-10', '-3', '-2.75', '-2.5', '0', '2.5', '2.75', '10'].map((n) => getNormalizedDecimal(n))
+		expect(keys.sort()).toEqual(expectedOrder)
+	})
+	it('should produce keys which preserve the numerical order of numbers too long for the fixed width', () => {
+		const numbers: Array<string> = ['99999999', '-123456789', '-2.5', '123456789', '0', '-99999999', '1234567890', '-1234567890']
+		const keys: Array<string | null> = numbers.map((n) => getNormalizedDecimal(n))
+		const expectedOrder: Array<string | null> = ['-1234567890', '-123456789', '-99999999', '-2.5', '0', '99999999', '123456789', '1234567890'].map((n) => getNormalizedDecimal(n))
+		expect(keys.sort()).toEqual(expectedOrder)
+	})
+	it('should reject the integer part of more than 99 digits', () => {
+		expect(getNormalizedDecimal('1'.repeat(99))).not.toBeNull()
+		expect(getNormalizedDecimal('1'.repeat(100))).toBeNull()
+	})
+})
+
+describe('getNormalizedNumberWithUnit', () => {
+	const LEN = 12
+	it.each([
+		['10', '1|02|000000000010|000000000000//'],
+		['10k', '1|05|000000010000|000000000000//'],
+		['10K', '1|05|000000010000|000000000000//'],
+		['2.5k', '1|04|000000002500|000000000000//'],
+		['512MB', '1|09|000512000000|000000000000//'],
+		['1KiB', '1|04|000000001024|000000000000//'],
+		['1.5Ki', '1|04|000000001536|000000000000//'],
+		['100B', '1|03|000000000100|000000000000//'],
+		['1.5', '1|01|000000000001|500000000000//'],
+		['10x', null],
+	])('>%s< should become %s', (s: string, out: string | null) => {
+		expect(getNormalizedNumberWithUnit(s, LEN)).toBe(out)
+	})
+})
+
+describe('Date regexps', () => {
+	it.each([
+		[DateYMDDashRegex, '', null],
+		[DateYMDDashRegex, ' 2023-01-05', '2023-01-05'], // leading spaces are swallowed
+		[DateYMDDashRegex, '2023-01-05 Meeting', '2023-01-05'],
+		[DateYMDDashRegex, '2023-1-5', null],
+		[DateYMDDashRegex, '05.01.2023', null],
+		[DateDMYDotRegex, '05.01.2023 Meeting', '05.01.2023'],
+		[DateDMYDotRegex, '5.1.2023', null],
+		[DateMonthNameDYRegex, 'Jan 5 2023 Meeting', 'Jan 5 2023'],
+		[DateMonthNameDYRegex, 'January 15, 2023', 'January 15, 2023'],
+		[DateMonthNameDYRegex, 'sept. 1 2023', 'sept. 1 2023'],
+		[DateMonthNameDYRegex, 'Foo 5 2023', null],
+		[DateDMonthNameYRegex, '5 Jan 2023', '5 Jan 2023'],
+		[DateDMonthNameYRegex, '05 DECEMBER 2023', '05 DECEMBER 2023'],
+		[DateYWDashRegex, '2023-W05 retro', '2023-W05'],
+		[DateYWDashRegex, '2023-w5', null],
+	])('%s should recognize >%s< and return %s', (regex: RegExp, s: string, out: string | null) => {
+		const match: RegExpMatchArray | null = s.match(regex)
+		if (out) {
+			expect(match).not.toBeNull()
+			expect(match?.[1]).toBe(out)
+		} else {
+			expect(match).toBeNull()
+		}
+	})
+})
+
+describe('getNormalizedDate', () => {
+	it.each([
+		['2023-01-05', 'YMD', '20230105//'],
+		['2023.12.31', 'YMD', '20231231//'],
+		['05.01.2023', 'DMY', '20230105//'],
+		['05-01-2023', 'DMY', '20230105//'],
+		['01-05-2023', 'MDY', '20230105//'],
+		['Jan 5 2023', 'MDY', '20230105//'],
+		['January 15, 2023', 'MDY', '20230115//'],
+		['sept. 1 2023', 'MDY', '20230901//'],
+		['5 Dec 2023', 'DMY', '20231205//'],
+		['2023-01', 'YM', '20230100//'],
+		['2023-W05', 'YW', '202305//'],
+		['2023-01', 'YMD', null], // Invalid case, Regexp on matcher in the caller should guard against this
+		['', 'YMD', null],
+	])('>%s< (%s) should become %s', (s: string, order: any, out: string | null) => {
+		expect(getNormalizedDate(s, order)).toBe(out)
+	})
+	it('should produce chronologically sortable values regardless of the textual layout of dates', () => {
+		const dates: Array<string | null> = [
+			getNormalizedDate('Mar 1 2023', 'MDY'),
+			getNormalizedDate('31.12.2022', 'DMY'),
+			getNormalizedDate('2023-02-15', 'YMD')
+		]
+		expect(dates.sort()).toEqual(['20221231//', '20230215//', '20230301//'])
+	})
+})
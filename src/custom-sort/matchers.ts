@@ -12,6 +12,40 @@ export const CompoundNumberDotRegexStr: string = ' *(\\d+(?:\\.\\d+)*)';
 export const CompoundNumberDashRegex: RegExp = /^ *(\d+(?:-\d+)*)/;  // Compound number with dash as separator
 export const CompoundNumberDashRegexStr: string = ' *(\\d+(?:-\\d+)*)';
 
+export const LetterCounterRegex: RegExp = /^ *([a-z]+)/i;  // Letter enumeration like a, b, ..., z, aa, ab, ...
+export const LetterCounterRegexStr: string = ' *([a-z]+)';
+export const CompoundAlphanumericDotRegex: RegExp = /^ *(\d+[a-z]*(?:\.[a-z0-9]+)*)/i;  // Compound number-letter key with dot as separator, like 1a or 2a.iii
+export const CompoundAlphanumericDotRegexStr: string = ' *(\\d+[a-z]*(?:\\.[a-z0-9]+)*)';
+
+export const SemverRegex: RegExp = /^ *(\d+\.\d+\.\d+(?:-[0-9a-z-]+(?:\.[0-9a-z-]+)*)?(?:\+[0-9a-z-]+(?:\.[0-9a-z-]+)*)?)/i;  // Semantic version like 1.10.0 or 1.9.3-beta.2
+export const SemverRegexStr: string = ' *(\\d+\\.\\d+\\.\\d+(?:-[0-9a-z-]+(?:\\.[0-9a-z-]+)*)?(?:\\+[0-9a-z-]+(?:\\.[0-9a-z-]+)*)?)';
+
+export const DecimalNumberRegex: RegExp = /^ *([-+]?\d+(?:\.\d+)?)/;  // Signed decimal number like -3 or 2.75
+export const DecimalNumberRegexStr: string = ' *([-+]?\\d+(?:\\.\\d+)?)';
+export const NumberWithUnitRegex: RegExp = /^ *(\d+(?:\.\d+)?(?:[kmgtp]i?b?|b)?)/i;  // Number with SI or binary unit suffix like 10k or 512MB
+export const NumberWithUnitRegexStr: string = ' *(\\d+(?:\\.\\d+)?(?:[kmgtp]i?b?|b)?)';
+
+const MonthNameRegexStr: string = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?'
+
+export const DateYMDDashRegex: RegExp = /^ *(\d{4}-\d{2}-\d{2})/;  // Date like 2023-01-05
+export const DateYMDDashRegexStr: string = ' *(\\d{4}-\\d{2}-\\d{2})';
+export const DateYMDDotRegex: RegExp = /^ *(\d{4}\.\d{2}\.\d{2})/;  // Date like 2023.01.05
+export const DateYMDDotRegexStr: string = ' *(\\d{4}\\.\\d{2}\\.\\d{2})';
+export const DateDMYDotRegex: RegExp = /^ *(\d{2}\.\d{2}\.\d{4})/;  // Date like 05.01.2023
+export const DateDMYDotRegexStr: string = ' *(\\d{2}\\.\\d{2}\\.\\d{4})';
+export const DateDMYDashRegex: RegExp = /^ *(\d{2}-\d{2}-\d{4})/;  // Date like 05-01-2023
+export const DateDMYDashRegexStr: string = ' *(\\d{2}-\\d{2}-\\d{4})';
+export const DateMDYDashRegex: RegExp = /^ *(\d{2}-\d{2}-\d{4})/;  // Date like 01-05-2023 (the same regex as above, yet different meaning)
+export const DateMDYDashRegexStr: string = ' *(\\d{2}-\\d{2}-\\d{4})';
+export const DateMonthNameDYRegex: RegExp = /^ *((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2},? \d{4})/i;  // Date like Jan 5 2023 or January 5, 2023
+export const DateMonthNameDYRegexStr: string = ` *(${MonthNameRegexStr} \\d{1,2},? \\d{4})`;
+export const DateDMonthNameYRegex: RegExp = /^ *(\d{1,2} (?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{4})/i;  // Date like 5 Jan 2023
+export const DateDMonthNameYRegexStr: string = ` *(\\d{1,2} ${MonthNameRegexStr} \\d{4})`;
+export const DateYMDashRegex: RegExp = /^ *(\d{4}-\d{2})/;  // Month like 2023-01
+export const DateYMDashRegexStr: string = ' *(\\d{4}-\\d{2})';
+export const DateYWDashRegex: RegExp = /^ *(\d{4}-W\d{2})/i;  // Week like 2023-W05
+export const DateYWDashRegexStr: string = ' *(\\d{4}-W\\d{2})';
+
 export const DOT_SEPARATOR = '.'
 export const DASH_SEPARATOR = '-'
 
@@ -19,6 +53,7 @@ const SLASH_SEPARATOR = '/' // ASCII 47
 const PIPE_SEPARATOR = '|'  // ASCII 124
 
 export const DEFAULT_NORMALIZATION_PLACES = 8;  // Fixed width of a normalized number (with leading zeros)
+export const NUMBER_WITH_UNIT_NORMALIZATION_PLACES = 20;  // Units multiply the number, e.g. 1PB = 10^15, hence more places
 
 export function prependWithZeros(s: string, minLength: number) {
 	if (s.length < minLength) {
@@ -92,3 +127,195 @@ export function getNormalizedRomanNumber(s: string, separator?: string, places?:
 		return `${prependWithZeros(romanToIntStr(s), places ?? DEFAULT_NORMALIZATION_PLACES)}//`
 	}
 }
+
+export function letterCounterToIntStr(s: string): string {
+	// Bijective base-26, the same as spreadsheet columns: a = 1, z = 26, aa = 27, ...
+	let num: number = 0
+	for (let c of s.toLowerCase()) {
+		num = num * 26 + (c.charCodeAt(0) - 'a'.charCodeAt(0) + 1)
+	}
+	return `${num}`
+}
+
+// Accepts trimmed letter counter as parameter. No internal verification!!!
+
+export function getNormalizedLetterCounter(s: string, places?: number): string | null {
+	return `${prependWithZeros(letterCounterToIntStr(s), places ?? DEFAULT_NORMALIZATION_PLACES)}//`
+}
+
+// Accepts trimmed compound alphanumeric key as parameter, like 1a or 2a.iii
+// Each run of digits is a number, each run of letters is a letter counter (1a, 1b, ...),
+// unless it directly follows another run of letters and consists of Roman digits only, then it is a Roman number (2a.i, 2a.ii, ...)
+// which reflects the typical numbering of outlines and legal documents
+
+const RomanDigitsOnlyRegex: RegExp = /^[MDCLXVI]+$/i
+
+export function getNormalizedCompoundAlphanumeric(s: string, places?: number): string | null {
+	const tokens: Array<string> = s.match(/\d+|[a-z]+/gi) ?? []
+	let previousWasLetters: boolean = false
+	const components: Array<string> = tokens.map((token) => {
+		const isLetters: boolean = isNaN(parseInt(token))
+		const isRoman: boolean = isLetters && previousWasLetters && RomanDigitsOnlyRegex.test(token)
+		const value: string = isLetters ? (isRoman ? romanToIntStr(token) : letterCounterToIntStr(token)) : token
+		previousWasLetters = isLetters
+		return prependWithZeros(value, places ?? DEFAULT_NORMALIZATION_PLACES)
+	})
+	return `${components.join(PIPE_SEPARATOR)}//`
+}
+
+// The keys are compared by the numeric and case-insensitive collator, which doesn't follow the ASCII order.
+// Hence each character is encoded as two lowercase letters (a hexadecimal digit each, 'a' = 0 ... 'p' = 15),
+// which the collator compares in the order of the character codes, e.g. 'rc2' becomes 'hcgddc'
+const asciiOrderKey = (s: string): string => {
+	const A: number = 'a'.charCodeAt(0)
+	return Array.from(s).map((c) => {
+		const code: number = c.charCodeAt(0) & 0xFF
+		return String.fromCharCode(A + (code >> 4), A + (code & 0x0F))
+	}).join('')
+}
+
+// Accepts trimmed semantic version as parameter. No internal verification!!!
+
+export function getNormalizedSemver(s: string, places?: number): string | null {
+	// Semver precedence: major, minor and patch are compared numerically,
+	// a pre-release version goes before the release version (1.0.0-rc.1 < 1.0.0),
+	// pre-release identifiers are compared one by one: numeric ones numerically, and before alphanumeric ones,
+	// alphanumeric ones in ASCII order (1.0.0-rc10 < 1.0.0-rc2, 1.0.0-RC < 1.0.0-rc),
+	// a shorter list of identifiers goes first if all preceding identifiers are equal (1.0.0-alpha < 1.0.0-alpha.1)
+	// Build metadata (after +) is ignored. Hence the conversion to:
+	// 1|0|0|0|xgbgmhagigb//  (pre-release, 'alpha' encoded for the ASCII order, see asciiOrderKey())
+	// 1|0|0|0|xgbgmhagigb|1//
+	// 1|0|0|1//  (release)
+	const [version, preRelease] = s.split('+')[0].split(/-(.*)/)
+	const versionComponents: Array<string> = version.split(DOT_SEPARATOR)
+	if (versionComponents.length !== 3) {
+		return null
+	}
+	const normalizedVersion: string = versionComponents.map((c) => prependWithZeros(c, places ?? DEFAULT_NORMALIZATION_PLACES)).join(PIPE_SEPARATOR)
+	if (preRelease) {
+		const identifiers: Array<string> = preRelease.split(DOT_SEPARATOR).map((id) =>
+			/^\d+$/.test(id) ? prependWithZeros(id, places ?? DEFAULT_NORMALIZATION_PLACES) : `x${asciiOrderKey(id)}`
+		)
+		return `${normalizedVersion}${PIPE_SEPARATOR}0${PIPE_SEPARATOR}${identifiers.join(PIPE_SEPARATOR)}//`
+	} else {
+		return `${normalizedVersion}${PIPE_SEPARATOR}1//`
+	}
+}
+
+const complementDigits = (s: string): string => s.replace(/\d/g, (d) => `${9 - parseInt(d)}`)
+
+// The count of digits of the integer part is encoded on two digits
+const MAX_DECIMAL_INTEGER_DIGITS: number = 99
+
+// Accepts trimmed signed decimal number as parameter
+
+export function getNormalizedDecimal(s: string, places?: number): string | null {
+	// The sign goes first, 0 for negative and 1 for positive numbers. Then the count of digits of the integer part,
+	// so that the numbers too long for the fixed width still compare correctly. Then the integer part
+	// and the fractional part, both of fixed width: the integer part padded with leading zeros,
+	// the fractional part padded with trailing zeros. For negative numbers the digits are complemented to 9,
+	// so that the number of a greater magnitude goes first, e.g. -123456789 < -10 < -3 < -2.75 < -2.5 < 0 < 2.5:
+	// 0|90|876543210|99999999//
+	// 0|97|99999989|99999999//
+	// 0|98|99999996|99999999//
+	// 0|98|99999997|24999999//
+	// 0|98|99999997|49999999//
+	// 1|00|00000000|00000000//
+	// 1|01|00000002|50000000//
+	const match: RegExpMatchArray | null = s.match(/^([-+]?)(\d+)(?:\.(\d+))?$/)
+	if (!match) {
+		return null
+	}
+	const [, sign, integerPart, fractionalPart] = match
+	const significantIntegerPart: string = integerPart.replace(/^0+/, '')
+	if (significantIntegerPart.length > MAX_DECIMAL_INTEGER_DIGITS) {
+		return null
+	}
+	const width: number = places ?? DEFAULT_NORMALIZATION_PLACES
+	const digitsCountStr: string = prependWithZeros(`${significantIntegerPart.length}`, 2)
+	const integerStr: string = prependWithZeros(significantIntegerPart, width)
+	const fractionalStr: string = (fractionalPart ?? '').padEnd(width, '0').substring(0, width)
+	const isNegative: boolean = sign === '-' && /[1-9]/.test(integerStr + fractionalStr)  // -0 is 0
+	if (isNegative) {
+		return `0${PIPE_SEPARATOR}${complementDigits(digitsCountStr)}${PIPE_SEPARATOR}${complementDigits(integerStr)}${PIPE_SEPARATOR}${complementDigits(fractionalStr)}//`
+	} else {
+		return `1${PIPE_SEPARATOR}${digitsCountStr}${PIPE_SEPARATOR}${integerStr}${PIPE_SEPARATOR}${fractionalStr}//`
+	}
+}
+
+const UnitMultipliers: { [unit: string]: number } = {
+	'': 1,
+	'k': 1e3,
+	'm': 1e6,
+	'g': 1e9,
+	't': 1e12,
+	'p': 1e15,
+	'ki': 1024,
+	'mi': 1024 ** 2,
+	'gi': 1024 ** 3,
+	'ti': 1024 ** 4,
+	'pi': 1024 ** 5
+}
+
+// Accepts trimmed number with optional unit suffix as parameter, like 10k, 2.5GiB or 512MB
+// The SI prefixes are case-insensitive, k = 1000, M = 1000^2, ..., the binary ones Ki = 1024, Mi = 1024^2, ...
+// The trailing B (bytes) is ignored
+
+export function getNormalizedNumberWithUnit(s: string, places?: number): string | null {
+	const match: RegExpMatchArray | null = s.match(/^(\d+(?:\.\d+)?)([a-z]*)$/i)
+	if (!match) {
+		return null
+	}
+	const [, numberPart, unit] = match
+	const multiplier: number | undefined = UnitMultipliers[unit.toLowerCase().replace(/b$/, '')]
+	if (multiplier === undefined) {
+		return null
+	}
+	return getNormalizedNumericValue(parseFloat(numberPart) * multiplier, places)
+}
+
+// Accepts a number (not a textual representation) as parameter, like the value of a metadata field or a timestamp
+// The normalized representation is the same as for decimal numbers, with more places for the integer part
+
+export function getNormalizedNumericValue(value: number, places?: number): string | null {
+	if (!Number.isFinite(value)) {
+		return null
+	}
+	// For very large numbers, toFixed() falls back to the exponential notation, which is rejected
+	return getNormalizedDecimal(value.toFixed(DEFAULT_NORMALIZATION_PLACES), places ?? NUMBER_WITH_UNIT_NORMALIZATION_PLACES)
+}
+
+const MonthNames: Array<string> = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+function monthToIntStr(m: string): string {
+	const idx: number = MonthNames.indexOf(m.substring(0, 3).toLowerCase())
+	return idx >= 0 ? `${idx + 1}` : m
+}
+
+// The order of year (Y), month (M), day (D) or week (W) components in the textual representation of a date
+export type DateComponentsOrder = 'YMD' | 'DMY' | 'MDY' | 'YM' | 'YW'
+
+// Accepts the date matched by one of the date regexps as parameter. No internal verification of date correctness!!!
+
+export function getNormalizedDate(s: string, componentsOrder: DateComponentsOrder): string | null {
+	// The date is converted to the fixed width YYYYMMDD// representation (or YYYYWW// for weeks)
+	// which sorts chronologically regardless of the textual layout of the date
+	const components: Array<string> = s.split(/[^0-9a-z]+/i).filter(c => c)
+	if (components.length !== componentsOrder.length) {
+		return null
+	}
+	let year: string = '', month: string = '', day: string = '', week: string = ''
+	components.forEach((c, idx) => {
+		switch (componentsOrder.charAt(idx)) {
+			case 'Y': year = c; break
+			case 'M': month = monthToIntStr(c); break
+			case 'D': day = c; break
+			case 'W': week = c.replace(/^w/i, ''); break
+		}
+	})
+	if (week) {
+		return `${prependWithZeros(year, 4)}${prependWithZeros(week, 2)}//`
+	} else {
+		return `${prependWithZeros(year, 4)}${prependWithZeros(month, 2)}${prependWithZeros(day, 2)}//`
+	}
+}
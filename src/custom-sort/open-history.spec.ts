@@ -0,0 +1,60 @@
+import {OpenHistory} from './custom-sort-types'
+import {
+	deleteFromOpenHistory,
+	MAX_OPEN_HISTORY_ENTRIES,
+	recordFileOpen,
+	renameInOpenHistory
+} from './open-history'
+
+describe('recordFileOpen', () => {
+	it('should record the first and the subsequent openings of a file', () => {
+		const history: OpenHistory = {}
+		recordFileOpen(history, 'Inbox/Note.md', 1000)
+		recordFileOpen(history, 'Inbox/Other note.md', 2000)
+		recordFileOpen(history, 'Inbox/Note.md', 3000)
+		expect(history).toEqual({
+			'Inbox/Note.md': [3000, 2],
+			'Inbox/Other note.md': [2000, 1]
+		})
+	})
+	it('should forget the least recently opened files over the limit', () => {
+		const history: OpenHistory = {}
+		for (let i = 0; i < MAX_OPEN_HISTORY_ENTRIES; i++) {
+			recordFileOpen(history, `Note ${i}.md`, 1000 + i)
+		}
+		recordFileOpen(history, 'Note 0.md', 5000)
+		recordFileOpen(history, 'New note.md', 6000)
+		expect(Object.keys(history).length).toEqual(MAX_OPEN_HISTORY_ENTRIES)
+		expect(history['Note 0.md']).toEqual([5000, 2])
+		expect(history['Note 1.md']).toBeUndefined()
+		expect(history['New note.md']).toEqual([6000, 1])
+	})
+})
+
+describe('renameInOpenHistory', () => {
+	it('should move the history of a renamed file', () => {
+		const history: OpenHistory = {'Inbox/Note.md': [1000, 3], 'Inbox/Note.md.md': [2000, 1]}
+		expect(renameInOpenHistory(history, 'Inbox/Note.md', 'Archive/Note.md')).toBeTruthy()
+		expect(history).toEqual({'Archive/Note.md': [1000, 3], 'Inbox/Note.md.md': [2000, 1]})
+	})
+	it('should move the history of files of a renamed folder', () => {
+		const history: OpenHistory = {'Inbox/Note.md': [1000, 3], 'Inbox/Sub/Deep.md': [2000, 1], 'Inbox 2/Note.md': [3000, 1]}
+		expect(renameInOpenHistory(history, 'Inbox', 'Archive')).toBeTruthy()
+		expect(history).toEqual({'Archive/Note.md': [1000, 3], 'Archive/Sub/Deep.md': [2000, 1], 'Inbox 2/Note.md': [3000, 1]})
+	})
+	it('should report no change for a file without history', () => {
+		const history: OpenHistory = {'Inbox/Note.md': [1000, 3]}
+		expect(renameInOpenHistory(history, 'Inbox/Other.md', 'Archive/Other.md')).toBeFalsy()
+		expect(history).toEqual({'Inbox/Note.md': [1000, 3]})
+	})
+})
+
+describe('deleteFromOpenHistory', () => {
+	it('should forget the history of a deleted file or of files of a deleted folder', () => {
+		const history: OpenHistory = {'Inbox/Note.md': [1000, 3], 'Inbox/Sub/Deep.md': [2000, 1], 'Other.md': [3000, 1]}
+		expect(deleteFromOpenHistory(history, 'Other.md')).toBeTruthy()
+		expect(deleteFromOpenHistory(history, 'Inbox/Sub')).toBeTruthy()
+		expect(deleteFromOpenHistory(history, 'Inbox/Sub')).toBeFalsy()
+		expect(history).toEqual({'Inbox/Note.md': [1000, 3]})
+	})
+})
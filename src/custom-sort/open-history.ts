@@ -0,0 +1,47 @@
+import {OpenHistory, OpenHistoryEntry} from "./custom-sort-types";
+
+// The history is persisted in the plugin data, hence limited to the most recently opened files
+export const MAX_OPEN_HISTORY_ENTRIES: number = 1000
+
+export const recordFileOpen = (history: OpenHistory, path: string, now: number) => {
+	const [, openCount]: OpenHistoryEntry = history[path] ?? [0, 0]
+	history[path] = [now, openCount + 1]
+	const paths: Array<string> = Object.keys(history)
+	if (paths.length > MAX_OPEN_HISTORY_ENTRIES) {
+		paths.sort((pathA: string, pathB: string) => history[pathA][0] - history[pathB][0])
+			.slice(0, paths.length - MAX_OPEN_HISTORY_ENTRIES)
+			.forEach((leastRecentlyOpenedPath: string) => {
+				delete history[leastRecentlyOpenedPath]
+			})
+	}
+}
+
+// For a folder, all the entries of files inside of it are affected
+const isSameOrInside = (path: string, fileOrFolderPath: string): boolean => {
+	return path === fileOrFolderPath || path.startsWith(`${fileOrFolderPath}/`)
+}
+
+// Returns true if the history was changed
+export const renameInOpenHistory = (history: OpenHistory, oldPath: string, newPath: string): boolean => {
+	let changed: boolean = false
+	Object.keys(history).forEach((path: string) => {
+		if (isSameOrInside(path, oldPath)) {
+			history[`${newPath}${path.substring(oldPath.length)}`] = history[path]
+			delete history[path]
+			changed = true
+		}
+	})
+	return changed
+}
+
+// Returns true if the history was changed
+export const deleteFromOpenHistory = (history: OpenHistory, deletedPath: string): boolean => {
+	let changed: boolean = false
+	Object.keys(history).forEach((path: string) => {
+		if (isSameOrInside(path, deletedPath)) {
+			delete history[path]
+			changed = true
+		}
+	})
+	return changed
+}
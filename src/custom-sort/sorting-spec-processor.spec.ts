@@ -2,17 +2,36 @@ import {
 	CompoundDashNumberNormalizerFn,
 	CompoundDashRomanNumberNormalizerFn,
 	CompoundDotNumberNormalizerFn,
+	convertChildOrderToSortingGroups,
 	convertPlainStringToRegex,
+	DateDMYNormalizerFn,
+	DateMDYNormalizerFn,
+	DateYMDNormalizerFn,
 	detectNumericSortingSymbols,
 	escapeRegexUnsafeCharacters,
 	extractNumericSortingSymbol,
+	extractNumericSortingSymbols,
+	findMalformedCharRange,
+	findMalformedRepetition,
+	hasAdjacentNumericSortingSymbols,
 	hasMoreThanOneNumericSortingSymbol,
+	mergeChildOrderIntoSortSpecs,
 	NumberNormalizerFn,
 	RegexpUsedAs,
 	RomanNumberNormalizerFn,
 	SortingSpecProcessor
 } from "./sorting-spec-processor"
-import {CustomSortGroupType, CustomSortOrder, CustomSortSpec} from "./custom-sort-types";
+import {
+	CustomSortGroup,
+	CustomSortGroupType,
+	CustomSortOrder,
+	CustomSortSpec,
+	GroupConditionOperator,
+	MetadataValueOperator,
+	MetadataValueType,
+	TimeWindowDate,
+	TitleSourceType
+} from "./custom-sort-types";
 import {FolderMatchingTreeNode} from "./folder-matching-rules";
 
 const txtInputExampleA: string = `
@@ -383,6 +402,426 @@ const expectedSortSpecsExampleNumericSortingSymbols: { [key: string]: CustomSort
 	}
 }
 
+const txtInputExampleMultipleNumericSortingSymbols: string = `
+/:files Vol \\d+ - Chapter \\R+ ...
+Part\\.d+ ... (rev \\d+)
+`
+
+const expectedSortSpecsExampleMultipleNumericSortingSymbols: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			filesOnly: true,
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.ExactPrefix,
+			regexPrefix: {
+				regex: /^Vol  *(\d+) \- Chapter  *([MDCLXVI]+) /i,
+				normalizerFns: [NumberNormalizerFn, RomanNumberNormalizerFn]
+			}
+		}, {
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.ExactHeadAndTail,
+			regexPrefix: {
+				regex: /^Part *(\d+(?:\.\d+)*) /i,
+				normalizerFn: CompoundDotNumberNormalizerFn
+			},
+			regexSuffix: {
+				regex: / \(rev  *(\d+)\)$/i,
+				normalizerFn: NumberNormalizerFn
+			}
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical,
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 2
+	}
+}
+
+const txtInputExampleDateSortingSymbols: string = `
+order-desc: a-z
+Meeting \\date(DD.MM.YYYY) ...
+... (\\date(MMM D YYYY))
+`
+
+const expectedSortSpecsExampleDateSortingSymbols: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		defaultOrder: CustomSortOrder.alphabeticalReverse,
+		groups: [{
+			order: CustomSortOrder.alphabeticalReverse,
+			type: CustomSortGroupType.ExactPrefix,
+			regexPrefix: {
+				regex: /^Meeting  *(\d{2}\.\d{2}\.\d{4}) /i,
+				normalizerFn: DateDMYNormalizerFn
+			}
+		}, {
+			order: CustomSortOrder.alphabeticalReverse,
+			type: CustomSortGroupType.ExactSuffix,
+			regexSuffix: {
+				regex: / \( *((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2},? \d{4})\)$/i,
+				normalizerFn: DateMDYNormalizerFn
+			}
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabeticalReverse,
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 2
+	}
+}
+
+const txtInputExampleOrdersChain: string = `
+order-desc: a-z, created
+/:files Task ...
+  < by-metadata: priority, modified desc, a-z
+/folders Chapter \\d+ ...
+  > true a-z, a-z by-metadata: status desc , advanced created
+`
+
+const expectedSortSpecsExampleOrdersChain: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		defaultOrder: CustomSortOrder.alphabeticalReverse,
+		defaultSecondaryOrders: [{order: CustomSortOrder.byCreatedTime}],
+		groups: [{
+			filesOnly: true,
+			exactPrefix: 'Task ',
+			order: CustomSortOrder.byMetadataFieldAlphabetical,
+			byMetadataField: 'priority',
+			secondaryOrders: [
+				{order: CustomSortOrder.byModifiedTimeReverse},
+				{order: CustomSortOrder.alphabetical}
+			],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			foldersOnly: true,
+			regexPrefix: {
+				regex: /^Chapter  *(\d+) /i,
+				normalizerFn: NumberNormalizerFn
+			},
+			order: CustomSortOrder.trueAlphabeticalReverse,
+			secondaryOrders: [
+				{order: CustomSortOrder.byMetadataFieldAlphabeticalReverse, byMetadataField: 'status'},
+				{order: CustomSortOrder.byCreatedTimeAdvanced}
+			],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabeticalReverse,
+			secondaryOrders: [{order: CustomSortOrder.byCreatedTime}]
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 2
+	}
+}
+
+const txtInputExampleTypedMetadata: string = `
+< by-metadata: due as date
+/:files Task ...
+  > by-metadata: rank AS Number, by-metadata: due as date desc, a-z
+/:files Note ...
+  < by-metadata: as number
+/:files Report ...
+  < modified, by-metadata: title as text
+`
+
+const expectedSortSpecsExampleTypedMetadata: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		defaultOrder: CustomSortOrder.byMetadataFieldAlphabetical,
+		byMetadataField: 'due',
+		byMetadataFieldType: MetadataValueType.Date,
+		groups: [{
+			filesOnly: true,
+			exactPrefix: 'Task ',
+			order: CustomSortOrder.byMetadataFieldAlphabeticalReverse,
+			byMetadataField: 'rank',
+			byMetadataFieldType: MetadataValueType.Number,
+			secondaryOrders: [
+				{order: CustomSortOrder.byMetadataFieldAlphabeticalReverse, byMetadataField: 'due', byMetadataFieldType: MetadataValueType.Date},
+				{order: CustomSortOrder.alphabetical}
+			],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			filesOnly: true,
+			exactPrefix: 'Note ',
+			order: CustomSortOrder.byMetadataFieldAlphabetical,
+			byMetadataFieldType: MetadataValueType.Number,
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			filesOnly: true,
+			exactPrefix: 'Report ',
+			order: CustomSortOrder.byModifiedTime,
+			secondaryOrders: [
+				{order: CustomSortOrder.byMetadataFieldAlphabetical, byMetadataField: 'title', byMetadataFieldType: MetadataValueType.Text}
+			],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.byMetadataFieldAlphabetical,
+			byMetadataField: 'due',
+			byMetadataFieldType: MetadataValueType.Date
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 3
+	}
+}
+
+const txtInputExampleMetadataValuesEnumeration: string = `
+/:files Task ...
+  < by-metadata: status in (inbox, doing, review, done), a-z
+/:files Idea ...
+  > by-metadata: in ( Later , ..., Now ), modified, by-metadata: stage in (draft,...) desc
+`
+
+const expectedSortSpecsExampleMetadataValuesEnumeration: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			filesOnly: true,
+			exactPrefix: 'Task ',
+			order: CustomSortOrder.byMetadataFieldEnumeration,
+			byMetadataField: 'status',
+			byMetadataFieldEnumeration: {values: ['inbox', 'doing', 'review', 'done'], unknownValuesIdx: 4},
+			secondaryOrders: [{order: CustomSortOrder.alphabetical}],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			filesOnly: true,
+			exactPrefix: 'Idea ',
+			order: CustomSortOrder.byMetadataFieldEnumerationReverse,
+			byMetadataFieldEnumeration: {values: ['Later', 'Now'], unknownValuesIdx: 1},
+			secondaryOrders: [
+				{order: CustomSortOrder.byModifiedTime},
+				{order: CustomSortOrder.byMetadataFieldEnumerationReverse, byMetadataField: 'stage', byMetadataFieldEnumeration: {values: ['draft'], unknownValuesIdx: 1}}
+			],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 2
+	}
+}
+
+const txtInputExampleMetadataValueConditions: string = `
+with-metadata: status = Done
+/:files with-metadata: status != done
+with-metadata: priority>=3
+/folders with-metadata: priority < -1.5
+with-metadata: status in (todo, in progress)
+with-metadata: status NOT IN (done)
+with-metadata: title ~ ^Draft...$
+with-metadata: Pages
+`
+
+const expectedSortSpecsExampleMetadataValueConditions: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'status',
+			withMetadataValueCondition: {operator: MetadataValueOperator.Equal, values: ['Done']},
+			order: CustomSortOrder.alphabetical
+		}, {
+			filesOnly: true,
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'status',
+			withMetadataValueCondition: {operator: MetadataValueOperator.NotEqual, values: ['done']},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'priority',
+			withMetadataValueCondition: {operator: MetadataValueOperator.GreaterOrEqual, number: 3},
+			order: CustomSortOrder.alphabetical
+		}, {
+			foldersOnly: true,
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'priority',
+			withMetadataValueCondition: {operator: MetadataValueOperator.Less, number: -1.5},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'status',
+			withMetadataValueCondition: {operator: MetadataValueOperator.In, values: ['todo', 'in progress']},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'status',
+			withMetadataValueCondition: {operator: MetadataValueOperator.NotIn, values: ['done']},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'title',
+			withMetadataValueCondition: {operator: MetadataValueOperator.Matches, regex: /^Draft...$/},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.HasMetadataField,
+			withMetadataFieldName: 'Pages',
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 8
+	}
+}
+
+const txtInputExampleTags: string = `
+with-tag: #project/active
+/:files with-tag: Project/...
+/folders with-tag: inbox
+`
+
+const expectedSortSpecsExampleTags: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			type: CustomSortGroupType.HasTag,
+			withTag: 'project/active',
+			order: CustomSortOrder.alphabetical
+		}, {
+			filesOnly: true,
+			type: CustomSortGroupType.HasTag,
+			withTag: 'project',
+			withNestedTags: true,
+			order: CustomSortOrder.alphabetical
+		}, {
+			foldersOnly: true,
+			type: CustomSortGroupType.HasTag,
+			withTag: 'inbox',
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 3
+	}
+}
+
+const txtInputExampleCompoundGroups: string = `
+starred: AND Draft ...
+/:files with-metadata: due OR with-tag: #urgent
+/folders NOT with-metadata: archived
+/:files. starred: AND NOT ... .pdf OR Chapter \\d+ ... AND with-metadata: status = done
+Q AND A
+`
+
+const expectedSortSpecsExampleCompoundGroups: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.And,
+				operands: [
+					{group: {type: CustomSortGroupType.StarredOnly}},
+					{group: {type: CustomSortGroupType.ExactPrefix, exactPrefix: 'Draft '}}
+				]
+			},
+			order: CustomSortOrder.alphabetical
+		}, {
+			filesOnly: true,
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.Or,
+				operands: [
+					{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'due'}},
+					{group: {type: CustomSortGroupType.HasTag, withTag: 'urgent'}}
+				]
+			},
+			order: CustomSortOrder.alphabetical
+		}, {
+			foldersOnly: true,
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.Not,
+				operands: [
+					{group: {type: CustomSortGroupType.HasMetadataField, withMetadataFieldName: 'archived'}}
+				]
+			},
+			order: CustomSortOrder.alphabetical
+		}, {
+			filesOnly: true,
+			matchFilenameWithExt: true,
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.Or,
+				operands: [{
+					operator: GroupConditionOperator.And,
+					operands: [
+						{group: {type: CustomSortGroupType.StarredOnly, matchFilenameWithExt: true}},
+						{
+							operator: GroupConditionOperator.Not,
+							operands: [{group: {type: CustomSortGroupType.ExactSuffix, exactSuffix: ' .pdf', matchFilenameWithExt: true}}]
+						}
+					]
+				}, {
+					operator: GroupConditionOperator.And,
+					operands: [{
+						group: {
+							type: CustomSortGroupType.ExactPrefix,
+							regexPrefix: {
+								regex: /^Chapter  *(\d+) /i,
+								normalizerFn: NumberNormalizerFn
+							},
+							matchFilenameWithExt: true
+						}
+					}, {
+						group: {
+							type: CustomSortGroupType.HasMetadataField,
+							withMetadataFieldName: 'status',
+							withMetadataValueCondition: {operator: MetadataValueOperator.Equal, values: ['done']},
+							matchFilenameWithExt: true
+						}
+					}]
+				}]
+			},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.ExactName,
+			exactText: 'Q AND A',
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 5
+	}
+}
+
+const txtInputExampleInlineRegexInPrefixAndSuffix: string = `
+\\d\\d-... - v\\d
+/:files \\d\\d-\\d+ ... - v\\[0-3]\\d
+`
+
+const expectedSortSpecsExampleInlineRegexInPrefixAndSuffix: { [key: string]: CustomSortSpec } = {
+	"mock-folder": {
+		groups: [{
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.ExactHeadAndTail,
+			regexPrefix: {
+				regex: /^\d\d\-/i
+			},
+			regexSuffix: {
+				regex: / \- v\d$/i
+			}
+		}, {
+			filesOnly: true,
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.ExactHeadAndTail,
+			regexPrefix: {
+				regex: /^\d\d\- *(\d+) /i,
+				normalizerFn: NumberNormalizerFn
+			},
+			regexSuffix: {
+				regex: / \- v[0-3]\d$/i
+			}
+		}, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical,
+		}],
+		targetFoldersPaths: ['mock-folder'],
+		outsidersGroupIdx: 2
+	}
+}
+
 const txtInputExampleNumericSortingSymbols: string = `
 /folders Chapter \\.d+ ...  
 /:files ...section \\-r+.
@@ -411,6 +850,51 @@ describe('SortingSpecProcessor', () => {
 		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
 		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleNumericSortingSymbols)
 	})
+	it('should generate correct SortSpecs (example with inline regex in prefix and suffix)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleInlineRegexInPrefixAndSuffix.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleInlineRegexInPrefixAndSuffix)
+	})
+	it('should generate correct SortSpecs (example with multiple numerical sorting symbols in a line)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleMultipleNumericSortingSymbols.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleMultipleNumericSortingSymbols)
+	})
+	it('should generate correct SortSpecs (example with chains of orders)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleOrdersChain.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleOrdersChain)
+	})
+	it('should generate correct SortSpecs (example with enumerated metadata values)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleMetadataValuesEnumeration.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleMetadataValuesEnumeration)
+	})
+	it('should generate correct SortSpecs (example with conditions on metadata values)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleMetadataValueConditions.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleMetadataValueConditions)
+	})
+	it('should generate correct SortSpecs (example with tags)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleTags.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleTags)
+	})
+	it('should generate correct SortSpecs (example with compound groups)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleCompoundGroups.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleCompoundGroups)
+	})
+	it('should generate correct SortSpecs (example with typed metadata values)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleTypedMetadata.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleTypedMetadata)
+	})
+	it('should generate correct SortSpecs (example with date sorting symbols)', () => {
+		const inputTxtArr: Array<string> = txtInputExampleDateSortingSymbols.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecsExampleDateSortingSymbols)
+	})
 })
 
 const txtInputNotDuplicatedSortSpec: string = `
@@ -1349,12 +1833,622 @@ describe('SortingSpecProcessor advanced folder-date based sorting methods', () =
 	})
 })
 
-const errorsLogger = jest.fn();
-
-const ERR_PREFIX = 'Sorting specification problem:'
-const ERR_SUFFIX = '---encountered in sorting spec in file mock-folder/custom-name-note.md'
-const ERR_SUFFIX_IN_LINE = (n: number) => `---encountered in line ${n} of sorting spec in file mock-folder/custom-name-note.md`
-const ERR_LINE_TXT = (txt: string) => `Content of problematic line: "${txt}"`
+const txtInputLinksCountsAndSizeSortingMethods: string = `
+target-folder: A
+> backlinks
+target-folder: B
+< outlinks
+/folders
+ > advanced backlinks
+/:files
+ < advanced outlinks, backlinks desc
+target-folder: C
+> size
+/folders
+ > advanced size
+/folders Archive...
+ < item count
+`
+
+const expectedSortSpecForLinksCountsAndSizeSortingMethods: { [key: string]: CustomSortSpec } = {
+	'A': {
+		defaultOrder: CustomSortOrder.byBacklinksReverse,
+		groups: [{
+			order: CustomSortOrder.byBacklinksReverse,
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersGroupIdx: 0,
+		targetFoldersPaths: ['A']
+	},
+	'B': {
+		defaultOrder: CustomSortOrder.byOutlinks,
+		groups: [{
+			foldersOnly: true,
+			order: CustomSortOrder.byBacklinksReverseAdvanced,
+			type: CustomSortGroupType.Outsiders
+		}, {
+			filesOnly: true,
+			order: CustomSortOrder.byOutlinksAdvanced,
+			secondaryOrders: [{order: CustomSortOrder.byBacklinksReverse}],
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersFilesGroupIdx: 1,
+		outsidersFoldersGroupIdx: 0,
+		targetFoldersPaths: ['B']
+	},
+	'C': {
+		defaultOrder: CustomSortOrder.bySizeReverse,
+		groups: [{
+			foldersOnly: true,
+			order: CustomSortOrder.bySizeReverseAdvanced,
+			type: CustomSortGroupType.Outsiders
+		}, {
+			exactPrefix: 'Archive',
+			foldersOnly: true,
+			order: CustomSortOrder.byItemsCount,
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			order: CustomSortOrder.bySizeReverse,
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersFoldersGroupIdx: 0,
+		outsidersGroupIdx: 2,
+		targetFoldersPaths: ['C']
+	}
+}
+
+describe('SortingSpecProcessor links-count and size based sorting methods', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should recognize the backlinks, outlinks, size and item count orders', () => {
+		const inputTxtArr: Array<string> = txtInputLinksCountsAndSizeSortingMethods.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecForLinksCountsAndSizeSortingMethods)
+		expect(result?.sortSpecByWildcard).toBeUndefined()
+	})
+})
+
+const txtInputByTitleAndFolderNoteLinksSortingMethods: string = `
+target-folder: A
+< by-title
+target-folder: C
+< by-folder-note-links, modified desc
+target-folder: B
+> by-title: heading Title alias
+Chapter...
+ < modified, by-title: name desc
+`
+
+const expectedSortSpecForByTitleAndFolderNoteLinksSortingMethods: { [key: string]: CustomSortSpec } = {
+	'A': {
+		defaultOrder: CustomSortOrder.byTitle,
+		groups: [{
+			order: CustomSortOrder.byTitle,
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersGroupIdx: 0,
+		targetFoldersPaths: ['A']
+	},
+	'C': {
+		defaultOrder: CustomSortOrder.byFolderNoteLinks,
+		defaultSecondaryOrders: [{order: CustomSortOrder.byModifiedTimeReverse}],
+		groups: [{
+			order: CustomSortOrder.byFolderNoteLinks,
+			secondaryOrders: [{order: CustomSortOrder.byModifiedTimeReverse}],
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersGroupIdx: 0,
+		targetFoldersPaths: ['C']
+	},
+	'B': {
+		defaultOrder: CustomSortOrder.byTitleReverse,
+		byTitleSources: [
+			{type: TitleSourceType.FirstHeading},
+			{type: TitleSourceType.Property, propertyName: 'Title'},
+			{type: TitleSourceType.FirstAlias}
+		],
+		groups: [{
+			exactPrefix: 'Chapter',
+			order: CustomSortOrder.byModifiedTime,
+			secondaryOrders: [{
+				order: CustomSortOrder.byTitleReverse,
+				byTitleSources: [{type: TitleSourceType.Property, propertyName: 'name'}]
+			}],
+			type: CustomSortGroupType.ExactPrefix
+		}, {
+			order: CustomSortOrder.byTitleReverse,
+			byTitleSources: [
+				{type: TitleSourceType.FirstHeading},
+				{type: TitleSourceType.Property, propertyName: 'Title'},
+				{type: TitleSourceType.FirstAlias}
+			],
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersGroupIdx: 1,
+		targetFoldersPaths: ['B']
+	}
+}
+
+describe('SortingSpecProcessor by-title and by-folder-note-links sorting methods', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should recognize the by-title order with default and explicit sources of the title and the by-folder-note-links order', () => {
+		const inputTxtArr: Array<string> = txtInputByTitleAndFolderNoteLinksSortingMethods.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecForByTitleAndFolderNoteLinksSortingMethods)
+		expect(result?.sortSpecByWildcard).toBeUndefined()
+	})
+})
+
+describe('SortingSpecProcessor opening history sorting methods', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should recognize the recently opened and frequently opened orders', () => {
+		const inputTxtArr: Array<string> = `
+order-desc: recently opened
+Daily...
+ > frequently opened, recently opened desc
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'mock-folder': {
+				defaultOrder: CustomSortOrder.byLastOpenedReverse,
+				groups: [{
+					exactPrefix: 'Daily',
+					order: CustomSortOrder.byOpenCountReverse,
+					secondaryOrders: [{order: CustomSortOrder.byLastOpenedReverse}],
+					type: CustomSortGroupType.ExactPrefix
+				}, {
+					order: CustomSortOrder.byLastOpenedReverse,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 1,
+				targetFoldersPaths: ['mock-folder']
+			}
+		})
+	})
+})
+
+describe('SortingSpecProcessor bookmarks', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should recognize the bookmarked groups and the by-bookmarks order', () => {
+		const inputTxtArr: Array<string> = `
+< by-bookmarks
+bookmarked: Reading List
+/:files bookmarked:
+ > modified
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'mock-folder': {
+				defaultOrder: CustomSortOrder.byBookmarks,
+				groups: [{
+					order: CustomSortOrder.byBookmarks,
+					type: CustomSortGroupType.Bookmarked,
+					withBookmarksGroup: 'reading list'
+				}, {
+					filesOnly: true,
+					order: CustomSortOrder.byModifiedTimeReverse,
+					type: CustomSortGroupType.Bookmarked
+				}, {
+					order: CustomSortOrder.byBookmarks,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 2,
+				targetFoldersPaths: ['mock-folder']
+			}
+		})
+	})
+})
+
+describe('SortingSpecProcessor advanced deep dates of folders', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should recognize the depth of subfolders of the advanced date orders', () => {
+		const inputTxtArr: Array<string> = `
+> advanced deep modified
+Archive...
+ < advanced deep:2 created, advanced modified desc
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'mock-folder': {
+				defaultOrder: CustomSortOrder.byModifiedTimeReverseAdvanced,
+				folderDatesDepth: Infinity,
+				groups: [{
+					exactPrefix: 'Archive',
+					folderDatesDepth: 2,
+					order: CustomSortOrder.byCreatedTimeAdvanced,
+					secondaryOrders: [{order: CustomSortOrder.byModifiedTimeReverseAdvanced}],
+					type: CustomSortGroupType.ExactPrefix
+				}, {
+					folderDatesDepth: Infinity,
+					order: CustomSortOrder.byModifiedTimeReverseAdvanced,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 1,
+				targetFoldersPaths: ['mock-folder']
+			}
+		})
+	})
+})
+
+describe('SortingSpecProcessor time window groups', () => {
+	let processor: SortingSpecProcessor;
+	let errorsLogger = jest.fn();
+	beforeEach(() => {
+		processor = new SortingSpecProcessor(errorsLogger);
+		errorsLogger.mockReset()
+	});
+	it('should recognize the time window groups', () => {
+		const inputTxtArr: Array<string> = `
+modified-within: today
+modified-within: 7d
+ > modified
+/:files created-within: 12h
+created-within: 2W
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'mock-folder': {
+				groups: [{
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.TimeWindow,
+					withinTimeWindow: {date: TimeWindowDate.Modified, today: true}
+				}, {
+					order: CustomSortOrder.byModifiedTimeReverse,
+					type: CustomSortGroupType.TimeWindow,
+					withinTimeWindow: {date: TimeWindowDate.Modified, durationMs: 7 * 24 * 60 * 60 * 1000}
+				}, {
+					filesOnly: true,
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.TimeWindow,
+					withinTimeWindow: {date: TimeWindowDate.Created, durationMs: 12 * 60 * 60 * 1000}
+				}, {
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.TimeWindow,
+					withinTimeWindow: {date: TimeWindowDate.Created, durationMs: 14 * 24 * 60 * 60 * 1000}
+				}, {
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 4,
+				targetFoldersPaths: ['mock-folder']
+			}
+		})
+	})
+	it.each([
+		'modified-within: 7',
+		'modified-within: 0d',
+		'modified-within: 7 days',
+		'created-within: yesterday',
+		'created-within:'
+	])('should recognize error: invalid time window in >%s<', (s: string) => {
+		const inputTxtArr: Array<string> = [s]
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 31:InvalidTimeWindowInGroupSpec A time window expected after "${s.split(' ')[0]}", like 12h, 7d, 2w or today ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+})
+
+describe('SortingSpecProcessor dates from metadata', () => {
+	let processor: SortingSpecProcessor;
+	let errorsLogger = jest.fn();
+	beforeEach(() => {
+		processor = new SortingSpecProcessor(errorsLogger);
+		errorsLogger.mockReset()
+	});
+	it('should recognize the sources of dates at folder and group level', () => {
+		const inputTxtArr: Array<string> = `
+created-from: metadata created
+< created
+Journal ...
+ modified-from: metadata updated
+ > modified
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'mock-folder': {
+				createdFromMetadataField: 'created',
+				defaultOrder: CustomSortOrder.byCreatedTime,
+				groups: [{
+					exactPrefix: 'Journal ',
+					modifiedFromMetadataField: 'updated',
+					order: CustomSortOrder.byModifiedTimeReverse,
+					type: CustomSortGroupType.ExactPrefix
+				}, {
+					order: CustomSortOrder.byCreatedTime,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 1,
+				targetFoldersPaths: ['mock-folder']
+			}
+		})
+	})
+	it.each([
+		'created-from: created',
+		'modified-from: metadata',
+		'modified-from: metadata updated date'
+	])('should recognize error: invalid source of dates in >%s<', (s: string) => {
+		const inputTxtArr: Array<string> = [s]
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 7:InvalidAttributeValue Invalid value of the attribute "${s.split(' ')[0]}" ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+})
+
+describe('SortingSpecProcessor attachments placement', () => {
+	let processor: SortingSpecProcessor;
+	let errorsLogger = jest.fn();
+	beforeEach(() => {
+		processor = new SortingSpecProcessor(errorsLogger);
+		errorsLogger.mockReset()
+	});
+	it('should recognize the attachments next to notes', () => {
+		const inputTxtArr: Array<string> = `
+target-folder: Photos
+Attachments: Next-To-Notes
+< modified
+`.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual({
+			'Photos': {
+				attachmentsNextToNotes: true,
+				defaultOrder: CustomSortOrder.byModifiedTime,
+				groups: [{
+					order: CustomSortOrder.byModifiedTime,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 0,
+				targetFoldersPaths: ['Photos']
+			}
+		})
+	})
+	it('should recognize error: invalid value of attachments placement', () => {
+		const inputTxtArr: Array<string> = ['attachments: at-the-end']
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 7:InvalidAttributeValue Invalid value of the attribute "attachments:" ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT('attachments: at-the-end'))
+	})
+	it('should recognize error: nested attachments placement', () => {
+		const inputTxtArr: Array<string> = ['Chapter ...', ' attachments: next-to-notes']
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 30:AttachmentsAttrOnlyAtFolderLevel The placement of attachments is only allowed at a folder level (not nested syntax) ${ERR_SUFFIX_IN_LINE(2)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(' attachments: next-to-notes'))
+	})
+})
+
+describe('convertChildOrderToSortingGroups', () => {
+	it.each([
+		[['Intro', 'Setup', 'Chapter 1', 'Chapter ...'], [
+			{type: CustomSortGroupType.ExactName, exactText: 'Intro', order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactName, exactText: 'Setup', order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactName, exactText: 'Chapter 1', order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactPrefix, exactPrefix: 'Chapter ', order: CustomSortOrder.alphabetical}
+		]],
+		[[' Intro ', '', 2023], [
+			{type: CustomSortGroupType.ExactName, exactText: 'Intro', order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactName, exactText: '2023', order: CustomSortOrder.alphabetical}
+		]],
+		['Intro\nSetup', [
+			{type: CustomSortGroupType.ExactName, exactText: 'Intro', order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactName, exactText: 'Setup', order: CustomSortOrder.alphabetical}
+		]],
+		[['...', '... draft'], [
+			{type: CustomSortGroupType.MatchAll, order: CustomSortOrder.alphabetical},
+			{type: CustomSortGroupType.ExactSuffix, exactSuffix: ' draft', order: CustomSortOrder.alphabetical}
+		]]
+	])('should convert %j', (childOrder: unknown, expected: Array<CustomSortGroup>) => {
+		expect(convertChildOrderToSortingGroups(childOrder)).toEqual(expected)
+	})
+	it.each([
+		'% misc',
+		'// Intro',
+		'< a-z',
+		'target-folder: /',
+		'starred:',
+		'/:files Intro',
+		'/! Intro',
+		'a\\d+b',
+		'Q AND A',
+		'/re: ^Intro$'
+	])('should take >%s< literally, as the exact name', (entry: string) => {
+		expect(convertChildOrderToSortingGroups([entry])).toEqual([
+			{type: CustomSortGroupType.ExactName, exactText: entry, order: CustomSortOrder.alphabetical}
+		])
+	})
+	it('should match the names with the extension as well, if the entry contains a dot', () => {
+		expect(convertChildOrderToSortingGroups(['diagram.png', '... .pdf'])).toEqual([{
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.Or,
+				operands: [
+					{group: {type: CustomSortGroupType.ExactName, exactText: 'diagram.png'}},
+					{group: {type: CustomSortGroupType.ExactName, exactText: 'diagram.png', matchFilenameWithExt: true}}
+				]
+			},
+			order: CustomSortOrder.alphabetical
+		}, {
+			type: CustomSortGroupType.Compound,
+			condition: {
+				operator: GroupConditionOperator.Or,
+				operands: [
+					{group: {type: CustomSortGroupType.ExactSuffix, exactSuffix: ' .pdf'}},
+					{group: {type: CustomSortGroupType.ExactSuffix, exactSuffix: ' .pdf', matchFilenameWithExt: true}}
+				]
+			},
+			order: CustomSortOrder.alphabetical
+		}])
+		expect(convertChildOrderToSortingGroups(['Wait... what'])?.[0].condition?.operands?.[0].group).toEqual({
+			type: CustomSortGroupType.ExactName,
+			exactText: 'Wait... what'
+		})
+	})
+	it.each([
+		[[]],
+		[['']],
+		[{Intro: 1}],
+		[['Intro', {Setup: 1}]],
+		[true]
+	])('should reject %j', (childOrder: unknown) => {
+		expect(convertChildOrderToSortingGroups(childOrder)).toBeNull()
+	})
+})
+
+describe('mergeChildOrderIntoSortSpecs', () => {
+	it('should create the spec of exact-name groups in the listed order, with wildcards and the Outsiders group', () => {
+		const groups: Array<CustomSortGroup> = convertChildOrderToSortingGroups(['Intro', 'Setup', 'Chapter 1', 'Appendix ...'])!
+		const result = mergeChildOrderIntoSortSpecs(null, 'Book', groups)
+		expect(result.sortSpecByPath).toEqual({
+			'Book': {
+				groups: [{
+					exactText: 'Intro',
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.ExactName
+				}, {
+					exactText: 'Setup',
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.ExactName
+				}, {
+					exactText: 'Chapter 1',
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.ExactName
+				}, {
+					exactPrefix: 'Appendix ',
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.ExactPrefix
+				}, {
+					order: CustomSortOrder.alphabetical,
+					type: CustomSortGroupType.Outsiders
+				}],
+				outsidersGroupIdx: 4,
+				targetFoldersPaths: ['Book']
+			}
+		})
+	})
+	it('should put the listed items before the groups of the existing spec of the folder', () => {
+		const processor: SortingSpecProcessor = new SortingSpecProcessor()
+		const collection = processor.parseSortSpecFromText([
+			'target-folder: Book',
+			'target-folder: Notes',
+			'/! starred:',
+			'/+ Draft ...',
+			'/+ ... draft',
+			'%',
+			' > modified'
+		], 'Book', 'sortspec.md')
+		const existingSpec: CustomSortSpec = collection!.sortSpecByPath['Book']
+		const groups: Array<CustomSortGroup> = convertChildOrderToSortingGroups(['Intro', 'Setup'])!
+		const result = mergeChildOrderIntoSortSpecs(collection, 'Book', groups)
+		const mergedSpec: CustomSortSpec = result.sortSpecByPath['Book']
+		expect(mergedSpec.targetFoldersPaths).toEqual(['Book'])
+		expect(mergedSpec.groups).toEqual([...groups, ...existingSpec.groups.map((group) =>
+			group.combineWithIdx !== undefined ? {...group, combineWithIdx: group.combineWithIdx + 2} : group
+		)])
+		expect(mergedSpec.outsidersGroupIdx).toBe(existingSpec.outsidersGroupIdx! + 2)
+		expect(mergedSpec.priorityOrder).toEqual([0, 1, ...existingSpec.priorityOrder!.map((idx) => idx + 2)])
+		// The spec of other folders stays intact
+		expect(result.sortSpecByPath['Notes']).toBe(existingSpec)
+		expect(existingSpec.groups).toHaveLength(4)
+	})
+	it('should put the listed items before the groups of the wildcard spec applicable to the folder', () => {
+		const processor: SortingSpecProcessor = new SortingSpecProcessor()
+		const collection = processor.parseSortSpecFromText([
+			'target-folder: Library/*',
+			'< a-z'
+		], 'Library', 'sortspec.md')
+		const groups: Array<CustomSortGroup> = convertChildOrderToSortingGroups(['Intro'])!
+		const result = mergeChildOrderIntoSortSpecs(collection, 'Library/Book', groups)
+		expect(result.sortSpecByPath['Library/Book'].groups).toEqual([...groups, {
+			type: CustomSortGroupType.Outsiders,
+			order: CustomSortOrder.alphabetical
+		}])
+		expect(result.sortSpecByPath['Library/Book'].outsidersGroupIdx).toBe(1)
+		expect(result.sortSpecByWildcard?.folderMatch('Library/Other')?.groups).toHaveLength(1)
+	})
+})
+
+const txtInputRegexpGroups: string = `
+target-folder: Quarterly
+/re: ^Q(\\d)-(\\w+)$
+/:files /re:2 ^Q(\\d)-(\\w+)$
+/re:0 \\d+...\\d+
+ > a-z
+`
+
+const expectedSortSpecForRegexpGroups: { [key: string]: CustomSortSpec } = {
+	"Quarterly": {
+		groups: [{
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.Regexp,
+			regexPrefix: {
+				regex: /^Q(\d)-(\w+)$/
+			}
+		}, {
+			filesOnly: true,
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.Regexp,
+			regexPrefix: {
+				regex: /^Q(\d)-(\w+)$/,
+				matchGroupIdx: 2
+			}
+		}, {
+			order: CustomSortOrder.alphabeticalReverse,
+			type: CustomSortGroupType.Regexp,
+			regexPrefix: {
+				regex: /\d+...\d+/,
+				matchGroupIdx: 0
+			}
+		}, {
+			order: CustomSortOrder.alphabetical,
+			type: CustomSortGroupType.Outsiders
+		}],
+		outsidersGroupIdx: 3,
+		targetFoldersPaths: ['Quarterly']
+	}
+}
+
+describe('SortingSpecProcessor regexp sorting groups', () => {
+	let processor: SortingSpecProcessor;
+	beforeEach(() => {
+		processor = new SortingSpecProcessor();
+	});
+	it('should correctly parse full regexp groups, also with capture group index', () => {
+		const inputTxtArr: Array<string> = txtInputRegexpGroups.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result?.sortSpecByPath).toEqual(expectedSortSpecForRegexpGroups)
+	})
+})
+
+const errorsLogger = jest.fn();
+
+const ERR_PREFIX = 'Sorting specification problem:'
+const ERR_SUFFIX = '---encountered in sorting spec in file mock-folder/custom-name-note.md'
+const ERR_SUFFIX_IN_LINE = (n: number) => `---encountered in line ${n} of sorting spec in file mock-folder/custom-name-note.md`
+const ERR_LINE_TXT = (txt: string) => `Content of problematic line: "${txt}"`
 
 const txtInputErrorDupTargetFolder: string = `
 target-folder: AAA
@@ -1393,8 +2487,8 @@ const txtInputErrorItemToHideWithNoValue: string = `
 target-folder: AAA
 --%
 `
-const txtInputErrorTooManyNumericSortSymbols: string = `
-% Chapter\\R+ ... page\\d+ 
+const txtInputErrorAdjacentNumericSortSymbols: string = `
+% Chapter\\R+\\d+ ... page
 `
 
 const txtInputErrorNestedStandardObsidianSortAttr: string = `
@@ -1475,6 +2569,31 @@ describe('SortingSpecProcessor error detection and reporting', () => {
 			`${ERR_PREFIX} 7:InvalidAttributeValue Invalid value of the attribute ">" ${ERR_SUFFIX_IN_LINE(3)}`)
 		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(' > definitely not correct'))
 	})
+	it.each([
+		'< a-z, unknown',
+		'< a-z,',
+		'< a-z desc, modified',
+		'< a-z, modified sideways',
+		'< by-metadata: due as decimal',
+		'< by-metadata: status in ()',
+		'< by-metadata: status in (todo, , done)',
+		'< by-metadata: status in (todo, ..., done, ...)',
+		'< by-metadata: status in (todo, done, Todo)',
+		'< by-metadata: status in (todo, done',
+		'< by-title:',
+		'< by-titles',
+		'< advanced deep:0 modified',
+		'< advanced deep: modified',
+		'< advanced deep size',
+	])('should recognize error: invalid chain of orders in >%s<', (s: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 7:InvalidAttributeValue Invalid value of the attribute "<" ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
 	it('should recognize error: no space before value for descending sorting attr (space only)', () => {
 		const inputTxtArr: Array<string> = txtInputErrorNoSpaceDescendingAttr.split('\n')
 		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
@@ -1493,14 +2612,14 @@ describe('SortingSpecProcessor error detection and reporting', () => {
 			`${ERR_PREFIX} 11:ItemToHideExactNameWithExtRequired Exact name with ext of file or folders to hide is required ${ERR_SUFFIX_IN_LINE(3)}`)
 		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT('--%'))
 	})
-	it('should recognize error: too many numeric sorting indicators in a line', () => {
-		const inputTxtArr: Array<string> = txtInputErrorTooManyNumericSortSymbols.split('\n')
+	it('should recognize error: directly adjacent numeric sorting indicators in a line', () => {
+		const inputTxtArr: Array<string> = txtInputErrorAdjacentNumericSortSymbols.split('\n')
 		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
 		expect(result).toBeNull()
 		expect(errorsLogger).toHaveBeenCalledTimes(2)
 		expect(errorsLogger).toHaveBeenNthCalledWith(1,
-			`${ERR_PREFIX} 9:TooManyNumericSortingSymbols Maximum one numeric sorting indicator allowed per line ${ERR_SUFFIX_IN_LINE(2)}`)
-		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT('% Chapter\\R+ ... page\\d+ '))
+			`${ERR_PREFIX} 26:NumericalSymbolAdjacentToNumericalSymbol Numerical sorting symbols must not be directly adjacent to each other. An explicit separator is required between them. ${ERR_SUFFIX_IN_LINE(2)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT('% Chapter\\R+\\d+ ... page'))
 	})
 	it('should recognize error: nested standard obsidian sorting attribute', () => {
 		const inputTxtArr: Array<string> = txtInputErrorNestedStandardObsidianSortAttr.split('\n')
@@ -1663,6 +2782,92 @@ describe('SortingSpecProcessor error detection and reporting', () => {
 			`${ERR_PREFIX} 23:CombinePrefixAfterGroupTypePrefix Combining prefix must be used before sorting group type indicator ${ERR_SUFFIX_IN_LINE(2)}`)
 		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT('/folders /+ Hello'))
 	})
+	it.each([
+		['with-metadata: status =', 'Value expected after "=" in the condition on metadata "status"'],
+		['with-metadata: status != ', 'Value expected after "!=" in the condition on metadata "status"'],
+		['with-metadata: priority > high', 'Number expected after ">" in the condition on metadata "priority"'],
+		['with-metadata: priority <= 1,5', 'Number expected after "<=" in the condition on metadata "priority"'],
+		['with-metadata: title ~ ^(unclosed', 'Invalid regular expression: /^(unclosed/: Unterminated group'],
+		['with-metadata: status in (todo, , done)', 'Non-empty values separated by "," expected in the list of metadata values'],
+		['/:files with-metadata: status not in ()', 'Non-empty values separated by "," expected in the list of metadata values'],
+	])('should recognize error: invalid condition on metadata value in >%s<', (s: string, details: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 28:InvalidMetadataValueCondition ${details} ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+	it.each([
+		['starred: OR  OR Draft ...', '1:SyntaxErrorInGroupSpec Empty operand of "AND", "OR" or "NOT"'],
+		['starred: AND NOT  AND Draft ...', '1:SyntaxErrorInGroupSpec Empty operand of "AND", "OR" or "NOT"'],
+		['starred: AND ... ... ...', '1:SyntaxErrorInGroupSpec three dots occurring more than once and no more text specified'],
+		['with-tag: #a AND with-metadata: x >= many', '28:InvalidMetadataValueCondition Number expected after ">=" in the condition on metadata "x"'],
+	])('should recognize error: invalid compound group in >%s<', (s: string, details: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} ${details} ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+	it.each([
+		'with-tag:',
+		'with-tag: #',
+		'with-tag: #project #area',
+		'/:files with-tag: project, area',
+	])('should recognize error: invalid tag in >%s<', (s: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 29:InvalidTagInGroupSpec A single tag expected after "with-tag:", like #project/active or #project/... ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+	it.each([
+		['/re:', 'Regular expression expected after "/re:"'],
+		['/re:2', 'Regular expression expected after "/re:"'],
+		['/:files /re:abc', 'Regular expression expected after "/re:"'],
+		['/re: ^(unclosed', 'Invalid regular expression: /^(unclosed/: Unterminated group'],
+		['/re:2 ^Q(\\d)$', 'Capture group 2 requested, yet the regular expression contains only 1 capture group(s)'],
+		['/re:1 ^Q\\d$', 'Capture group 1 requested, yet the regular expression contains only 0 capture group(s)']
+	])('should recognize error: invalid regexp group in >%s<', (s: string, details: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 25:InvalidRegexInGroupSpec ${details} ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+	it.each([
+		['Notes \\[5-0]', 'Malformed character range "\\[5-0]". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]'],
+		['Notes \\[0-z] ...', 'Malformed character range "\\[0-z]". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]'],
+		['/:files ...\\[a-Z]', 'Malformed character range "\\[a-Z]". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]'],
+		['\\[0-9 Notes', 'Malformed character range "\\[0-9 Notes". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]'],
+		['\\[abc] Notes', 'Malformed character range "\\[abc]". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]'],
+		['Notes \\d{0}', 'Malformed repetition "\\d{0}". Expected a positive repetition count, like \\d{4}'],
+		['Notes \\a{2,3} ...', 'Malformed repetition "\\a{2,3}". Expected a positive repetition count, like \\d{4}'],
+		['... \\[0-5]{x}', 'Malformed repetition "\\[0-5]{x}". Expected a positive repetition count, like \\d{4}'],
+		['\\?{3', 'Malformed repetition "\\?{3". Expected a positive repetition count, like \\d{4}'],
+	])('should recognize error: malformed inline regex symbol in >%s<', (s: string, details: string) => {
+		const inputTxtArr: Array<string> = s.split('\n')
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(2)
+		expect(errorsLogger).toHaveBeenNthCalledWith(1,
+			`${ERR_PREFIX} 27:MalformedInlineRegexSymbol ${details} ${ERR_SUFFIX_IN_LINE(1)}`)
+		expect(errorsLogger).toHaveBeenNthCalledWith(2, ERR_LINE_TXT(s))
+	})
+	it('should not report malformed inline regex symbols in a full regular expression', () => {
+		const inputTxtArr: Array<string> = ['/re: ^\\d{0,2}[a-z]?\\[$']
+		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
+		expect(result).not.toBeNull()
+		expect(errorsLogger).toHaveBeenCalledTimes(0)
+	})
 	it('should recognize empty spec', () => {
 		const inputTxtArr: Array<string> = txtInputEmptySpec.split('\n')
 		const result = processor.parseSortSpecFromText(inputTxtArr, 'mock-folder', 'custom-name-note.md')
@@ -1827,7 +3032,15 @@ describe('detectNumericSortingSymbols', () => {
 		['\\.r+', true], [' \\.r+ ', true],
 		['\\-r+', true], [' \\-r+ ', true],
 		['\\d+abcd\\d+efgh', true],
-		['\\d+\\.D+\\-d+\\R+\\.r+\\-R+ \\d+', true]
+		['\\d+\\.D+\\-d+\\R+\\.r+\\-R+ \\d+', true],
+		['\\date(YYYY-MM-DD)', true], [' \\DATE(dd.mm.yyyy) ', true],
+		['\\date(MMM D YYYY)', true], ['\\date(YYYY-Www)', true],
+		['\\date(YYYY/MM/DD)', false], ['\\date', false],
+		['\\a+', true], [' \\A+) ', true],
+		['\\.da+', true], ['\\.DA+ ', true],
+		['\\a', false], ['\\da+', false],
+		['v\\semver', true], ['\\SemVer ', true], ['\\sem', false],
+		['\\decimal Ratio', true], ['\\units Dump', true], ['\\unit', false]
 	])('should correctly detect in >%s< (%s) sorting regex symbols', (s: string, b: boolean) => {
 		const result = detectNumericSortingSymbols(s)
 		expect(result).toBe(b)
@@ -1855,6 +3068,66 @@ describe('hasMoreThanOneNumericSortingSymbol', () => {
 	})
 })
 
+describe('findMalformedCharRange', () => {
+	it.each([
+		['', null],
+		['\\[0-9]', null],
+		['\\[0-0] \\[a-a]', null],
+		['[9-0]', null],
+		['\\[3-0]', '\\[3-0]'],
+		['\\[a-Z]', '\\[a-Z]'],
+		['\\[0-5] \\[ab-c] \\[3-0]', '\\[ab-c]'],
+		['\\[0-5', '\\[0-5'],
+	])('should correctly find in >%s< the malformed range (%s)', (s: string, out: string | null) => {
+		expect(findMalformedCharRange(s)).toBe(out)
+	})
+})
+
+describe('findMalformedRepetition', () => {
+	it.each([
+		['', null],
+		['\\d{4}', null],
+		['\\a{12} \\?{1} \\[0-5]{3}', null],
+		['abc{0}', null],
+		['\\d+{0}', null],
+		['\\d{0}', '\\d{0}'],
+		['\\d{4} \\a{03}', '\\a{03}'],
+		['\\[0-5]{}', '\\[0-5]{}'],
+		['\\?{1,2}', '\\?{1,2}'],
+	])('should correctly find in >%s< the malformed repetition (%s)', (s: string, out: string | null) => {
+		expect(findMalformedRepetition(s)).toBe(out)
+	})
+})
+
+describe('hasAdjacentNumericSortingSymbols', () => {
+	it.each([
+		['', false],
+		['\\d+', false],
+		['\\d+ \\R+', false],
+		['\\d+\\d\\R+', false],
+		['\\d+\\R+', true],
+		['Vol \\.d+\\-r+ ...', true],
+		['\\-D+\\d+', true]
+	])('should correctly detect in >%s< (%s) adjacent sorting regex symbols', (s: string, b: boolean) => {
+		const result = hasAdjacentNumericSortingSymbols(s)
+		expect(result).toBe(b)
+	})
+})
+
+describe('extractNumericSortingSymbols', () => {
+	it.each([
+		['', []],
+		['d+', []],
+		[' \\d+', ['\\d+']],
+		['--\\.D+ \\d+', ['\\.D+', '\\d+']],
+		['Vol \\d+ - Chapter \\R+ - \\-r+', ['\\d+', '\\R+', '\\-r+']],
+		['\\date(YYYY-MM) - \\date(D MMM YYYY)', ['\\date(YYYY-MM)', '\\date(D MMM YYYY)']]
+	])('should correctly extract from >%s< the numeric sorting symbols (%s)', (s: string, ss: Array<string>) => {
+		const result = extractNumericSortingSymbols(s)
+		expect(result).toEqual(ss)
+	})
+})
+
 describe('extractNumericSortingSymbol', () => {
 	it.each([
 		['', null],
@@ -1889,6 +3162,11 @@ describe('convertPlainStringWithNumericSortingSymbolToRegex', () => {
 		['  \\dd  ', /  \dd  /i],
 		['  \\d\\d   \\[0-9]  ', /  \d\d   [0-9]  /i],
 		['  \\d 123 \\[0-9]  ', /  \d 123 [0-9]  /i],
+		['\\a\\[a-f]\\[A-F]', /[a-z][a-f][A-F]/i],
+		['Q\\[1-4] \\?\\?', /Q[1-4] ../i],
+		['\\d{4}-\\[0-1]\\d', /\d{4}\-[0-1]\d/i],
+		['\\a{2}\\?{3}x\\[5-7]{12}', /[a-z]{2}.{3}x[5-7]{12}/i],
+		['\\a \\a+ \\d{2}', /[a-z]  *([a-z]+) \d{2}/i],
 			// Advanced numeric symbols in connection with simple regex
 		['\\dLorem ipsum\\r+:', /\dLorem ipsum *([MDCLXVI]+):/i],
 		['W\\dLorem ipsum\\r+:', /W\dLorem ipsum *([MDCLXVI]+):/i],
@@ -1901,13 +3179,55 @@ describe('convertPlainStringWithNumericSortingSymbolToRegex', () => {
 		['% Section ...[0-9]\\-r+page', /% Section \.\.\.\[0\-9\] *([MDCLXVI]+(?:-[MDCLXVI]+)*)page/i],
 		    // Edge and error cases, behavior covered by tests to act as specification of the engine here
 		    //   even if at run-time the error checking prevents some such expressions
-		['abc\\d+efg\\d+hij', /abc *(\d+)efg/i], // Double advanced numerical sorting symbol, error case
-		['--\\.D+\\d+', /\-\- *(\d+(?:\.\d+)*)\d\+/i],  // Two advanced numerical symbols
+		['--\\.D+\\d+', /\-\- *(\d+(?:\.\d+)*) *(\d+)/i],  // Two adjacent advanced numerical symbols, error case
+			// Multiple advanced numeric symbols
+		['abc\\d+efg\\d+hij', /abc *(\d+)efg *(\d+)hij/i],
+		['Vol \\d+ - Chapter \\R+ - \\.d+', /Vol  *(\d+) \- Chapter  *([MDCLXVI]+) \-  *(\d+(?:\.\d+)*)/i],
+		['\\d\\-r+\\d:\\d+\\d', /\d *([MDCLXVI]+(?:-[MDCLXVI]+)*)\d: *(\d+)\d/i],
+			// Letter enumeration and compound alphanumeric symbols
+		['\\a+) ', / *([a-z]+)\) /i],
+		['Section \\.da+:', /Section  *(\d+[a-z]*(?:\.[a-z0-9]+)*):/i],
+			// Semver symbol
+		['Release v\\semver', /Release v *(\d+\.\d+\.\d+(?:-[0-9a-z-]+(?:\.[0-9a-z-]+)*)?(?:\+[0-9a-z-]+(?:\.[0-9a-z-]+)*)?)/i],
+			// Signed decimal and unit-suffixed number symbols
+		['Floor \\decimal:', /Floor  *([-+]?\d+(?:\.\d+)?):/i],
+		['\\units Users', / *(\d+(?:\.\d+)?(?:[kmgtp]i?b?|b)?) Users/i],
+			// Date symbols
+		['Meeting \\date(YYYY-MM-DD)', /Meeting  *(\d{4}-\d{2}-\d{2})/i],
+		['\\date(DD.MM.YYYY) notes', / *(\d{2}\.\d{2}\.\d{4}) notes/i],
+		['Log \\date(MMM D YYYY)', /Log  *((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2},? \d{4})/i],
+		['Week \\date(YYYY-Www)', /Week  *(\d{4}-W\d{2})/i],
+		['\\date(YYYY-MM) \\d+', / *(\d{4}-\d{2})  *(\d+)/i],
 	])('should correctly extract from >%s< the numeric sorting symbol (%s)', (s: string, regex: RegExp) => {
 		const result = convertPlainStringToRegex(s, RegexpUsedAs.InUnitTest)
 		expect(result?.regexpSpec.regex).toEqual(regex)
 		// No need to examine prefix and suffix fields of result, they are secondary and derived from the returned regexp
 	})
+	it('should treat inline regex symbols as case-sensitive', () => {
+		const result = convertPlainStringToRegex('\\D \\A{4}', RegexpUsedAs.InUnitTest)
+		expect(result).toBeNull()
+	})
+	it('should provide the date normalizer matching the layout of the date symbol', () => {
+		const result1 = convertPlainStringToRegex('\\date(YYYY.MM.DD) ', RegexpUsedAs.Prefix)
+		const result2 = convertPlainStringToRegex(' - \\date(mmm d yyyy)', RegexpUsedAs.Suffix)
+		expect(result1?.regexpSpec).toEqual({
+			regex: /^ *(\d{4}\.\d{2}\.\d{2}) /i,
+			normalizerFn: DateYMDNormalizerFn
+		})
+		expect(result2?.regexpSpec).toEqual({
+			regex: / \-  *((?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.? \d{1,2},? \d{4})$/i,
+			normalizerFn: DateMDYNormalizerFn
+		})
+	})
+	it('should provide one normalizer per each of multiple numeric sorting symbols', () => {
+		const result = convertPlainStringToRegex('Vol \\d+ - Chapter \\R+:', RegexpUsedAs.Prefix)
+		expect(result?.regexpSpec).toEqual({
+			regex: /^Vol  *(\d+) \- Chapter  *([MDCLXVI]+):/i,
+			normalizerFns: [NumberNormalizerFn, RomanNumberNormalizerFn]
+		})
+		expect(result?.prefix).toBe('Vol ')
+		expect(result?.suffix).toBe(':')
+	})
 	it('should not process string not containing numeric sorting symbol nor regex', () => {
 		const input1 = 'abc'
 		const input2 = '[0-9]'
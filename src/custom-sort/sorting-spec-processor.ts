@@ -3,23 +3,55 @@ import {
 	CustomSortGroupType,
 	CustomSortOrder,
 	CustomSortSpec,
+	GroupCondition,
+	GroupConditionOperator,
+	MetadataValueCondition,
+	MetadataValueOperator,
+	MetadataValuesEnumeration,
+	MetadataValueType,
 	DEFAULT_METADATA_FIELD_FOR_SORTING,
 	NormalizerFn,
 	RecognizedOrderValue,
-	RegExpSpec
+	RegExpSpec,
+	SecondaryOrder,
+	TimeWindow,
+	TimeWindowDate,
+	TitleSource,
+	TitleSourceType
 } from "./custom-sort-types";
 import {isDefined, last} from "../utils/utils";
 import {
+	CompoundAlphanumericDotRegexStr,
 	CompoundNumberDashRegexStr,
 	CompoundNumberDotRegexStr,
 	CompoundRomanNumberDashRegexStr,
 	CompoundRomanNumberDotRegexStr,
 	DASH_SEPARATOR,
+	DateComponentsOrder,
+	DateDMonthNameYRegexStr,
+	DateDMYDashRegexStr,
+	DateDMYDotRegexStr,
+	DateMDYDashRegexStr,
+	DateMonthNameDYRegexStr,
+	DateYMDashRegexStr,
+	DateYMDDashRegexStr,
+	DateYMDDotRegexStr,
+	DateYWDashRegexStr,
+	DecimalNumberRegexStr,
 	DOT_SEPARATOR,
+	getNormalizedCompoundAlphanumeric,
+	getNormalizedDate,
+	getNormalizedDecimal,
+	getNormalizedLetterCounter,
 	getNormalizedNumber,
+	getNormalizedNumberWithUnit,
 	getNormalizedRomanNumber,
+	getNormalizedSemver,
+	LetterCounterRegexStr,
 	NumberRegexStr,
-	RomanNumberRegexStr
+	NumberWithUnitRegexStr,
+	RomanNumberRegexStr,
+	SemverRegexStr
 } from "./matchers";
 import {
 	FolderWildcardMatching,
@@ -45,6 +77,7 @@ interface ParsedSortingGroup {
 	plainSpec?: string
 	arraySpec?: Array<string>
 	outsidersGroup?: boolean // Mutually exclusive with plainSpec and arraySpec
+	compoundSpec?: string    // AND / OR / NOT composition of criteria, mutually exclusive with plainSpec and arraySpec
 	itemToHide?: boolean
 	priority?: number
 	combine?: boolean
@@ -60,7 +93,7 @@ export enum ProblemCode {
 	NoSpaceBetweenAttributeAndValue,
 	InvalidAttributeValue,
 	TargetFolderNestedSpec,
-	TooManyNumericSortingSymbols,
+	TooManyNumericSortingSymbols,   // No longer reported, multiple numeric sorting symbols are allowed in a line
 	NumericalSymbolAdjacentToWildcard,
 	ItemToHideExactNameWithExtRequired,
 	ItemToHideNoSupportForThreeDots,
@@ -75,7 +108,14 @@ export enum ProblemCode {
 	TooManyGroupTypePrefixes,
 	PriorityPrefixAfterGroupTypePrefix,
 	CombinePrefixAfterGroupTypePrefix,
-	InlineRegexInPrefixAndSuffix
+	InlineRegexInPrefixAndSuffix,   // No longer reported, inline regex symbols are allowed both in prefix and suffix
+	InvalidRegexInGroupSpec,
+	NumericalSymbolAdjacentToNumericalSymbol,
+	MalformedInlineRegexSymbol,
+	InvalidMetadataValueCondition,
+	InvalidTagInGroupSpec,
+	AttachmentsAttrOnlyAtFolderLevel,
+	InvalidTimeWindowInGroupSpec
 }
 
 const ContextFreeProblems = new Set<ProblemCode>([
@@ -92,8 +132,11 @@ const DEFAULT_SORT_ORDER = CustomSortOrder.alphabetical
 interface CustomSortOrderAscDescPair {
 	asc: CustomSortOrder,
 	desc: CustomSortOrder,
-	secondary?: CustomSortOrder
 	applyToMetadataField?: string
+	applyToMetadataFieldType?: MetadataValueType
+	applyToMetadataFieldEnumeration?: MetadataValuesEnumeration
+	applyToTitleSources?: Array<TitleSource>
+	applyToFolderDatesDepth?: number
 }
 
 // remember about .toLowerCase() before comparison!
@@ -104,57 +147,115 @@ const OrderLiterals: { [key: string]: CustomSortOrderAscDescPair } = {
 	'modified': {asc: CustomSortOrder.byModifiedTime, desc: CustomSortOrder.byModifiedTimeReverse},
 	'advanced modified': {asc: CustomSortOrder.byModifiedTimeAdvanced, desc: CustomSortOrder.byModifiedTimeReverseAdvanced},
 	'advanced created': {asc: CustomSortOrder.byCreatedTimeAdvanced, desc: CustomSortOrder.byCreatedTimeReverseAdvanced},
+	'backlinks': {asc: CustomSortOrder.byBacklinks, desc: CustomSortOrder.byBacklinksReverse},
+	'advanced backlinks': {asc: CustomSortOrder.byBacklinksAdvanced, desc: CustomSortOrder.byBacklinksReverseAdvanced},
+	'outlinks': {asc: CustomSortOrder.byOutlinks, desc: CustomSortOrder.byOutlinksReverse},
+	'advanced outlinks': {asc: CustomSortOrder.byOutlinksAdvanced, desc: CustomSortOrder.byOutlinksReverseAdvanced},
+	'size': {asc: CustomSortOrder.bySize, desc: CustomSortOrder.bySizeReverse},
+	'advanced size': {asc: CustomSortOrder.bySizeAdvanced, desc: CustomSortOrder.bySizeReverseAdvanced},
+	'item count': {asc: CustomSortOrder.byItemsCount, desc: CustomSortOrder.byItemsCountReverse},
+	'by-folder-note-links': {asc: CustomSortOrder.byFolderNoteLinks, desc: CustomSortOrder.byFolderNoteLinksReverse},
+	'recently opened': {asc: CustomSortOrder.byLastOpened, desc: CustomSortOrder.byLastOpenedReverse},
+	'frequently opened': {asc: CustomSortOrder.byOpenCount, desc: CustomSortOrder.byOpenCountReverse},
+	'by-bookmarks': {asc: CustomSortOrder.byBookmarks, desc: CustomSortOrder.byBookmarksReverse}
+}
 
-	// Advanced, for edge cases of secondary sorting, when if regexp match is the same, override the alphabetical sorting by full name
-	'a-z, created': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byCreatedTime
-	},
-	'a-z, created desc': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byCreatedTimeReverse
-	},
-	'a-z, modified': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byModifiedTime
-	},
-	'a-z, modified desc': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byModifiedTimeReverse
-	},
-	'a-z, advanced created': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byCreatedTimeAdvanced
-	},
-	'a-z, advanced created desc': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byCreatedTimeReverseAdvanced
-	},
-	'a-z, advanced modified': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byModifiedTimeAdvanced
-	},
-	'a-z, advanced modified desc': {
-		asc: CustomSortOrder.alphabetical,
-		desc: CustomSortOrder.alphabeticalReverse,
-		secondary: CustomSortOrder.byModifiedTimeReverseAdvanced
+const OrdersChainSeparator: string = ','
+
+// Splits the chain of orders at the separators outside of parentheses, e.g. 'by-metadata: status in (todo, done), a-z'
+// Returns null for unbalanced parentheses
+const splitOrdersChain = (v: string): Array<string> | null => {
+	const orders: Array<string> = []
+	let nestingDepth: number = 0
+	let orderStartIdx: number = 0
+	for (let idx = 0; idx < v.length; idx++) {
+		const c: string = v.charAt(idx)
+		if (c === '(') {
+			nestingDepth++
+		} else if (c === ')') {
+			if (--nestingDepth < 0) {
+				return null
+			}
+		} else if (c === OrdersChainSeparator && nestingDepth === 0) {
+			orders.push(v.substring(orderStartIdx, idx))
+			orderStartIdx = idx + 1
+		}
 	}
+	orders.push(v.substring(orderStartIdx))
+	return nestingDepth === 0 ? orders : null
 }
 
+// The direction of a secondary order in a chain, e.g. 'modified desc'. Ascending if not specified
+const SecondaryOrderDirectionRegex: RegExp = /^(.*?)(?:\s+(asc|desc))?$/i
+
 const OrderByMetadataLexeme: string = 'by-metadata:'
 
+// The declared type of metadata values, e.g. 'by-metadata: due as date'
+const MetadataValueTypeRegex: RegExp = /^(.*?)(?:^|\s+)as\s+(\S+)$/i
+
+// The explicit order of metadata values, e.g. 'by-metadata: status in (inbox, doing, ..., done)'
+// The optional ... denotes the position of values not enumerated explicitly
+const MetadataValuesEnumerationRegex: RegExp = /^(.*?)(?:^|\s+)in\s*\((.*)\)$/i
+const MetadataValuesEnumerationSeparator: string = ','
+
+// Returns null if the enumeration is empty, contains empty or duplicated values or more than one ...
+const parseMetadataValuesEnumeration = (s: string): MetadataValuesEnumeration | null => {
+	const values: Array<string> = []
+	let unknownValuesIdx: number | undefined
+	for (let value of s.split(MetadataValuesEnumerationSeparator)) {
+		value = value.trim()
+		if (isThreeDots(value)) {
+			if (unknownValuesIdx !== undefined) {
+				return null
+			}
+			unknownValuesIdx = values.length
+		} else if (!value || values.some((v) => v.toLowerCase() === value.toLowerCase())) {
+			return null
+		} else {
+			values.push(value)
+		}
+	}
+	return values.length > 0 ? {values: values, unknownValuesIdx: unknownValuesIdx ?? values.length} : null
+}
+
+// The order by title of notes, optionally with the explicit chain of sources of the title, e.g. 'by-title: title heading'
+const OrderByTitleRegex: RegExp = /^by-title(?::(.*))?$/i
+
+// The advanced order by dates of folders aggregated also from subfolders, optionally limited to the levels of subfolders,
+// e.g. 'advanced deep modified' or 'advanced deep:2 created'
+const OrderByDeepFolderDatesRegex: RegExp = /^advanced\s+deep(?::(\d+))?\s+(modified|created)$/i
+
+// remember about .toLowerCase() before comparison!
+const TitleSourceLexemes: { [key: string]: TitleSourceType } = {
+	'heading': TitleSourceType.FirstHeading,
+	'alias': TitleSourceType.FirstAlias
+}
+
+// Each space-separated source is either a predefined one (heading, alias) or the name of a frontmatter property
+// Returns null if no sources are specified
+const parseTitleSources = (s: string): Array<TitleSource> | null => {
+	const sources: Array<TitleSource> = s.trim().split(/\s+/).filter((source) => !!source).map((source) => {
+		const type: TitleSourceType | undefined = TitleSourceLexemes[source.toLowerCase()]
+		return type ? {type: type} : {type: TitleSourceType.Property, propertyName: source}
+	})
+	return sources.length > 0 ? sources : null
+}
+
+// remember about .toLowerCase() before comparison!
+const MetadataValueTypes: { [key: string]: MetadataValueType } = {
+	'text': MetadataValueType.Text,
+	'number': MetadataValueType.Number,
+	'date': MetadataValueType.Date
+}
+
 enum Attribute {
 	TargetFolder = 1, // Starting from 1 to allow: if (attribute) { ...
 	OrderAsc,
 	OrderDesc,
-	OrderStandardObsidian
+	OrderStandardObsidian,
+	Attachments,
+	CreatedFrom,
+	ModifiedFrom
 }
 
 const AttrLexems: { [key: string]: Attribute } = {
@@ -163,6 +264,9 @@ const AttrLexems: { [key: string]: Attribute } = {
 	'order-asc:': Attribute.OrderAsc,
 	'order-desc:': Attribute.OrderDesc,
 	'sorting:': Attribute.OrderStandardObsidian,
+	'attachments:': Attribute.Attachments,
+	'created-from:': Attribute.CreatedFrom,
+	'modified-from:': Attribute.ModifiedFrom,
 	// Concise abbreviated equivalents
 	'::::': Attribute.TargetFolder,
 	'<': Attribute.OrderAsc,
@@ -171,6 +275,11 @@ const AttrLexems: { [key: string]: Attribute } = {
 	'\\>': Attribute.OrderDesc // to allow single-liners in YAML
 }
 
+const AttachmentsNextToNotesLexeme: string = 'next-to-notes'
+
+// The source of dates of files other than the file system, e.g. 'created-from: metadata created'
+const DatesFromMetadataRegex: RegExp = /^metadata\s+(\S+)$/i
+
 const CURRENT_FOLDER_SYMBOL: string = '.'
 
 interface ParsedSortingAttribute {
@@ -197,6 +306,48 @@ const MetadataFieldIndicatorLexeme: string = 'with-metadata:'
 
 const StarredItemsIndicatorLexeme: string = 'starred:'
 
+// Optionally followed by the title of a bookmarks group, e.g. 'bookmarked: Reading list'
+const BookmarkedItemsIndicatorLexeme: string = 'bookmarked:'
+
+const TagIndicatorLexeme: string = 'with-tag:'
+
+// A tag with optional leading #, e.g. 'with-tag: #project/active'. The trailing '/...' includes the nested tags
+const TagSpecRegex: RegExp = /^#?([^\s#,]+?)(\/\.\.\.)?$/
+
+const ModifiedWithinIndicatorLexeme: string = 'modified-within:'
+const CreatedWithinIndicatorLexeme: string = 'created-within:'
+
+// A time window, e.g. 'modified-within: 7d', in hours, days or weeks, or since the local midnight, e.g. 'modified-within: today'
+const TimeWindowSpecRegex: RegExp = /^(?:(\d+)\s*([hdw])|(today))$/i
+
+const MillisecondsInTimeWindowUnit: { [key: string]: number } = {
+	'h': 60 * 60 * 1000,
+	'd': 24 * 60 * 60 * 1000,
+	'w': 7 * 24 * 60 * 60 * 1000
+}
+
+// The condition on the value of metadata, e.g. 'with-metadata: status = done' or 'with-metadata: priority >= 3'
+const MetadataValueConditionRegex: RegExp = /^(\S+?)\s*(!=|>=|<=|=|>|<|~)\s*(.*)$/
+
+// The list membership condition, e.g. 'with-metadata: status in (todo, doing)' or 'with-metadata: status not in (done)'
+const MetadataValueListConditionRegex: RegExp = /^(\S+)\s+(not\s+)?in\s*\((.*)\)$/i
+const MetadataValueListSeparator: string = ','
+
+const MetadataValueOperators: { [key: string]: MetadataValueOperator } = {
+	'=': MetadataValueOperator.Equal,
+	'!=': MetadataValueOperator.NotEqual,
+	'<': MetadataValueOperator.Less,
+	'<=': MetadataValueOperator.LessOrEqual,
+	'>': MetadataValueOperator.Greater,
+	'>=': MetadataValueOperator.GreaterOrEqual,
+	'~': MetadataValueOperator.Matches
+}
+
+const RegexpGroupIndicatorLexeme: string = '/re:'
+
+// The lexeme can be directly followed by the index of capture group to use for sorting, e.g. /re:2 ^(\d+)-(\d+)$
+const RegexpGroupSpecRegex: RegExp = /^(\d*)\s+(.+)$/
+
 const CommentPrefix: string = '//'
 
 const PriorityModifierPrio1Lexeme: string = '/!'
@@ -245,6 +396,47 @@ const isThreeDots = (s: string): boolean => {
 	return s === ThreeDots
 }
 
+const OrConditionLexeme: string = ' OR '
+const AndConditionLexeme: string = ' AND '
+const NotConditionLexeme: string = 'NOT '
+
+// The criteria other than name-based
+const NonNameCriteriaLexemes: Array<string> = [
+	MetadataFieldIndicatorLexeme,
+	TagIndicatorLexeme,
+	StarredItemsIndicatorLexeme,
+	BookmarkedItemsIndicatorLexeme,
+	RegexpGroupIndicatorLexeme,
+	ModifiedWithinIndicatorLexeme,
+	CreatedWithinIndicatorLexeme
+]
+
+const stripNotConditionLexeme = (s: string): string => {
+	if (s === NotConditionLexeme.trim()) {
+		return ''
+	}
+	return s.startsWith(NotConditionLexeme) ? s.substring(NotConditionLexeme.length).trim() : s
+}
+
+// The composition of criteria requires at least one of them to be other than a name pattern, e.g. 'starred: AND Draft ...'
+// Thanks to that the names like 'Q AND A' keep their meaning of an exact name
+const isCompoundGroupSpec = (s: string): boolean => {
+	const operands: Array<string> = s.split(OrConditionLexeme)
+		.reduce((acc: Array<string>, orOperand: string) => acc.concat(orOperand.split(AndConditionLexeme)), [])
+		.map((operand) => operand.trim())
+	const negated: boolean = operands.some((operand) => operand.startsWith(NotConditionLexeme))
+	if (operands.length < 2 && !negated) {
+		return false
+	}
+	return operands.some((operand) =>
+		NonNameCriteriaLexemes.some((lexeme) => stripNotConditionLexeme(operand).startsWith(lexeme))
+	)
+}
+
+const isRegexpGroupSpec = (s: string): boolean => {
+	return s.startsWith(RegexpGroupIndicatorLexeme)
+}
+
 const containsThreeDots = (s: string): boolean => {
 	return s.indexOf(ThreeDots) !== -1
 }
@@ -253,13 +445,32 @@ const RomanNumberRegexSymbol: string = '\\R+'                // Roman number
 const CompoundRomanNumberDotRegexSymbol: string = '\\.R+'    // Compound Roman number with dot as separator
 const CompoundRomanNumberDashRegexSymbol: string = '\\-R+'   // Compound Roman number with dash as separator
 
+const LetterCounterRegexSymbol: string = '\\a+'                  // Letter enumeration like a, b, ..., z, aa, ab, ...
+const CompoundAlphanumericDotRegexSymbol: string = '\\.da+'     // Compound number-letter key with dot as separator, like 1a or 2a.iii
+
+const SemverRegexSymbol: string = '\\semver'   // Semantic version like 1.10.0 or 1.9.3-beta.2
+
+const DecimalNumberRegexSymbol: string = '\\decimal'   // Signed decimal number like -3 or 2.75
+const NumberWithUnitRegexSymbol: string = '\\units'    // Number with SI or binary unit suffix like 10k or 512MB
+
 const NumberRegexSymbol: string = '\\d+'               // Plain number
 const CompoundNumberDotRegexSymbol: string = '\\.d+'   // Compound number with dot as separator
 const CompoundNumberDashRegexSymbol: string = '\\-d+'  // Compound number with dash as separator
 
-const InlineRegexSymbol_Digit1: string = '\\d'
-const InlineRegexSymbol_Digit2: string = '\\[0-9]'
-const InlineRegexSymbol_0_to_3: string = '\\[0-3]'
+const DateYMDDashRegexSymbol: string = '\\date(YYYY-MM-DD)'        // Date like 2023-01-05
+const DateYMDDotRegexSymbol: string = '\\date(YYYY.MM.DD)'         // Date like 2023.01.05
+const DateDMYDotRegexSymbol: string = '\\date(DD.MM.YYYY)'         // Date like 05.01.2023
+const DateDMYDashRegexSymbol: string = '\\date(DD-MM-YYYY)'        // Date like 05-01-2023
+const DateMDYDashRegexSymbol: string = '\\date(MM-DD-YYYY)'        // Date like 01-05-2023
+const DateMonthNameDYRegexSymbol: string = '\\date(MMM D YYYY)'    // Date like Jan 5 2023 or January 5, 2023
+const DateDMonthNameYRegexSymbol: string = '\\date(D MMM YYYY)'    // Date like 5 Jan 2023
+const DateYMDashRegexSymbol: string = '\\date(YYYY-MM)'            // Month like 2023-01
+const DateYWDashRegexSymbol: string = '\\date(YYYY-Www)'           // Week like 2023-W05
+
+const InlineRegexSymbol_Digit: string = '\\d'
+const InlineRegexSymbol_Letter: string = '\\a'
+const InlineRegexSymbol_AnyChar: string = '\\?'
+// Plus the character ranges like \[0-9], \[0-5] or \[a-z], see InlineRegexCharRangeRegexStr
 
 const UnsafeRegexCharsRegex: RegExp = /[\^$.\-+\[\]{}()|*?=!\\]/g
 
@@ -274,29 +485,58 @@ const numericSortingSymbolsArr: Array<string> = [
 	escapeRegexUnsafeCharacters(CompoundNumberDashRegexSymbol),
 	escapeRegexUnsafeCharacters(CompoundRomanNumberDotRegexSymbol),
 	escapeRegexUnsafeCharacters(CompoundRomanNumberDashRegexSymbol),
+	escapeRegexUnsafeCharacters(LetterCounterRegexSymbol),
+	escapeRegexUnsafeCharacters(CompoundAlphanumericDotRegexSymbol),
+	escapeRegexUnsafeCharacters(SemverRegexSymbol),
+	escapeRegexUnsafeCharacters(DecimalNumberRegexSymbol),
+	escapeRegexUnsafeCharacters(NumberWithUnitRegexSymbol),
+	escapeRegexUnsafeCharacters(DateYMDDashRegexSymbol),
+	escapeRegexUnsafeCharacters(DateYMDDotRegexSymbol),
+	escapeRegexUnsafeCharacters(DateDMYDotRegexSymbol),
+	escapeRegexUnsafeCharacters(DateDMYDashRegexSymbol),
+	escapeRegexUnsafeCharacters(DateMDYDashRegexSymbol),
+	escapeRegexUnsafeCharacters(DateMonthNameDYRegexSymbol),
+	escapeRegexUnsafeCharacters(DateDMonthNameYRegexSymbol),
+	escapeRegexUnsafeCharacters(DateYMDashRegexSymbol),
+	escapeRegexUnsafeCharacters(DateYWDashRegexSymbol),
 ]
 
 const numericSortingSymbolsRegex = new RegExp(numericSortingSymbolsArr.join('|'), 'gi')
 
-const inlineRegexSymbolsArrEscapedForRegex: Array<string> = [
-	escapeRegexUnsafeCharacters(InlineRegexSymbol_Digit1),
-	escapeRegexUnsafeCharacters(InlineRegexSymbol_Digit2),
-	escapeRegexUnsafeCharacters(InlineRegexSymbol_0_to_3)
-]
+const adjacentNumericSortingSymbolsRegex = new RegExp(`(?:${numericSortingSymbolsArr.join('|')}){2}`, 'i')
 
 // Don't be confused if the source lexeme is equal to the resulting regex piece, logically these two distinct spaces
 const inlineRegexSymbolsToRegexExpressionsArr: { [key: string]: string} = {
-	[InlineRegexSymbol_Digit1]: '\\d',
-	[InlineRegexSymbol_Digit2]: '[0-9]',
-	[InlineRegexSymbol_0_to_3]: '[0-3]',
+	[InlineRegexSymbol_Digit]: '\\d',
+	[InlineRegexSymbol_Letter]: '[a-z]',  // The resulting regex is case-insensitive anyway
+	[InlineRegexSymbol_AnyChar]: '.',
 }
 
-const inlineRegexSymbolsDetectionRegex = new RegExp(inlineRegexSymbolsArrEscapedForRegex.join('|'), 'gi')
+// A range of digits or letters, like \[0-5] or \[a-f], which becomes the regex character class [0-5] or [a-f]
+const InlineRegexCharRangeRegexStr: string = '\\\\\\[(?:\\d-\\d|[a-z]-[a-z]|[A-Z]-[A-Z])]'
+// Optional repetition count, like \d{4}. Only exact count, to keep the inline regex fixed-length
+const InlineRegexRepetitionRegexStr: string = '(?:\\{[1-9]\\d*})?'
+
+const inlineRegexSymbolsArrEscapedForRegex: Array<string> = [
+	...Object.keys(inlineRegexSymbolsToRegexExpressionsArr).map((symbol) => escapeRegexUnsafeCharacters(symbol)),
+	InlineRegexCharRangeRegexStr
+]
+
+const inlineRegexSymbolsDetectionRegex = new RegExp(`(?:${inlineRegexSymbolsArrEscapedForRegex.join('|')})${InlineRegexRepetitionRegexStr}`, 'g')
+
+// Candidates for character range or repetition, to detect the malformed ones, like \[5-0], \[0-z] or \d{0}
+const CharRangeCandidateRegex: RegExp = /\\\[[^\]]*]?/g
+const ValidCharRangeRegex: RegExp = /^\\\[(\d-\d|[a-z]-[a-z]|[A-Z]-[A-Z])]$/
+const RepetitionCandidateRegex: RegExp = /(?:\\d|\\a|\\\?|\\\[[^\]]*])(\{[^}]*}?)/g
+const ValidRepetitionRegex: RegExp = /^\{[1-9]\d*}$/
 
 export const hasMoreThanOneNumericSortingSymbol = (s: string): boolean => {
 	numericSortingSymbolsRegex.lastIndex = 0
 	return numericSortingSymbolsRegex.test(s) && numericSortingSymbolsRegex.test(s)
 }
+export const hasAdjacentNumericSortingSymbols = (s: string): boolean => {
+	return adjacentNumericSortingSymbolsRegex.test(s)
+}
 export const detectNumericSortingSymbols = (s: string): boolean => {
 	numericSortingSymbolsRegex.lastIndex = 0
 	return numericSortingSymbolsRegex.test(s)
@@ -307,6 +547,27 @@ export const detectInlineRegex = (s?: string): boolean => {
 	return s ? inlineRegexSymbolsDetectionRegex.test(s) : false
 }
 
+export const findMalformedCharRange = (s: string): string | null => {
+	for (let candidate of s.match(CharRangeCandidateRegex) ?? []) {
+		const range: RegExpMatchArray | null = candidate.match(ValidCharRangeRegex)
+		if (!range || range[1].charCodeAt(0) > range[1].charCodeAt(2)) {
+			return candidate
+		}
+	}
+	return null
+}
+
+export const findMalformedRepetition = (s: string): string | null => {
+	RepetitionCandidateRegex.lastIndex = 0
+	let candidate: RegExpExecArray | null
+	while ((candidate = RepetitionCandidateRegex.exec(s)) !== null) {
+		if (!ValidRepetitionRegex.test(candidate[1])) {
+			return candidate[0]
+		}
+	}
+	return null
+}
+
 export const extractNumericSortingSymbol = (s?: string): string | null => {
 	if (s) {
 		numericSortingSymbolsRegex.lastIndex = 0
@@ -317,6 +578,15 @@ export const extractNumericSortingSymbol = (s?: string): string | null => {
 	}
 }
 
+export const extractNumericSortingSymbols = (s?: string): Array<string> => {
+	if (s) {
+		numericSortingSymbolsRegex.lastIndex = 0
+		return s.match(numericSortingSymbolsRegex) ?? []
+	} else {
+		return []
+	}
+}
+
 export interface RegExpSpecStr {
 	regexpStr: string
 	normalizerFn: NormalizerFn
@@ -327,9 +597,20 @@ export interface RegExpSpecStr {
 export const RomanNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedRomanNumber(s)
 export const CompoundDotRomanNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedRomanNumber(s, DOT_SEPARATOR)
 export const CompoundDashRomanNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedRomanNumber(s, DASH_SEPARATOR)
+export const LetterCounterNormalizerFn: NormalizerFn = (s: string) => getNormalizedLetterCounter(s)
+export const CompoundDotAlphanumericNormalizerFn: NormalizerFn = (s: string) => getNormalizedCompoundAlphanumeric(s)
+export const SemverNormalizerFn: NormalizerFn = (s: string) => getNormalizedSemver(s)
+export const DecimalNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedDecimal(s)
+export const NumberWithUnitNormalizerFn: NormalizerFn = (s: string) => getNormalizedNumberWithUnit(s)
 export const NumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedNumber(s)
 export const CompoundDotNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedNumber(s, DOT_SEPARATOR)
 export const CompoundDashNumberNormalizerFn: NormalizerFn = (s: string) => getNormalizedNumber(s, DASH_SEPARATOR)
+const dateNormalizerFn = (componentsOrder: DateComponentsOrder): NormalizerFn => (s: string) => getNormalizedDate(s, componentsOrder)
+export const DateYMDNormalizerFn: NormalizerFn = dateNormalizerFn('YMD')
+export const DateDMYNormalizerFn: NormalizerFn = dateNormalizerFn('DMY')
+export const DateMDYNormalizerFn: NormalizerFn = dateNormalizerFn('MDY')
+export const DateYMNormalizerFn: NormalizerFn = dateNormalizerFn('YM')
+export const DateYWNormalizerFn: NormalizerFn = dateNormalizerFn('YW')
 
 export enum AdvancedRegexType {
 	None, // to allow if (advancedRegex)
@@ -338,7 +619,13 @@ export enum AdvancedRegexType {
 	CompoundDashNumber,
 	RomanNumber,
 	CompoundDotRomanNumber,
-	CompoundDashRomanNumber
+	CompoundDashRomanNumber,
+	Date,
+	LetterCounter,
+	CompoundDotAlphanumeric,
+	Semver,
+	DecimalNumber,
+	NumberWithUnit
 }
 
 const numericSortingSymbolToRegexpStr: { [key: string]: RegExpSpecStr } = {
@@ -357,6 +644,31 @@ const numericSortingSymbolToRegexpStr: { [key: string]: RegExpSpecStr } = {
 		normalizerFn: CompoundDashRomanNumberNormalizerFn,
 		advancedRegexType: AdvancedRegexType.CompoundDashRomanNumber
 	},
+	[LetterCounterRegexSymbol.toLowerCase()]: {
+		regexpStr: LetterCounterRegexStr,
+		normalizerFn: LetterCounterNormalizerFn,
+		advancedRegexType: AdvancedRegexType.LetterCounter
+	},
+	[CompoundAlphanumericDotRegexSymbol.toLowerCase()]: {
+		regexpStr: CompoundAlphanumericDotRegexStr,
+		normalizerFn: CompoundDotAlphanumericNormalizerFn,
+		advancedRegexType: AdvancedRegexType.CompoundDotAlphanumeric
+	},
+	[SemverRegexSymbol.toLowerCase()]: {
+		regexpStr: SemverRegexStr,
+		normalizerFn: SemverNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Semver
+	},
+	[DecimalNumberRegexSymbol.toLowerCase()]: {
+		regexpStr: DecimalNumberRegexStr,
+		normalizerFn: DecimalNumberNormalizerFn,
+		advancedRegexType: AdvancedRegexType.DecimalNumber
+	},
+	[NumberWithUnitRegexSymbol.toLowerCase()]: {
+		regexpStr: NumberWithUnitRegexStr,
+		normalizerFn: NumberWithUnitNormalizerFn,
+		advancedRegexType: AdvancedRegexType.NumberWithUnit
+	},
 	[NumberRegexSymbol.toLowerCase()]: {
 		regexpStr: NumberRegexStr,
 		normalizerFn: NumberNormalizerFn,
@@ -371,6 +683,51 @@ const numericSortingSymbolToRegexpStr: { [key: string]: RegExpSpecStr } = {
 		regexpStr: CompoundNumberDashRegexStr,
 		normalizerFn: CompoundDashNumberNormalizerFn,
 		advancedRegexType: AdvancedRegexType.CompoundDashNumber
+	},
+	[DateYMDDashRegexSymbol.toLowerCase()]: {
+		regexpStr: DateYMDDashRegexStr,
+		normalizerFn: DateYMDNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateYMDDotRegexSymbol.toLowerCase()]: {
+		regexpStr: DateYMDDotRegexStr,
+		normalizerFn: DateYMDNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateDMYDotRegexSymbol.toLowerCase()]: {
+		regexpStr: DateDMYDotRegexStr,
+		normalizerFn: DateDMYNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateDMYDashRegexSymbol.toLowerCase()]: {
+		regexpStr: DateDMYDashRegexStr,
+		normalizerFn: DateDMYNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateMDYDashRegexSymbol.toLowerCase()]: {
+		regexpStr: DateMDYDashRegexStr,
+		normalizerFn: DateMDYNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateMonthNameDYRegexSymbol.toLowerCase()]: {
+		regexpStr: DateMonthNameDYRegexStr,
+		normalizerFn: DateMDYNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateDMonthNameYRegexSymbol.toLowerCase()]: {
+		regexpStr: DateDMonthNameYRegexStr,
+		normalizerFn: DateDMYNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateYMDashRegexSymbol.toLowerCase()]: {
+		regexpStr: DateYMDashRegexStr,
+		normalizerFn: DateYMNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
+	},
+	[DateYWDashRegexSymbol.toLowerCase()]: {
+		regexpStr: DateYWDashRegexStr,
+		normalizerFn: DateYWNormalizerFn,
+		advancedRegexType: AdvancedRegexType.Date
 	}
 }
 
@@ -380,9 +737,10 @@ const numericSortingSymbolToRegexpStr: { [key: string]: RegExpSpecStr } = {
 //     - contains variable-length matching regex, e.g. [0-9]+
 //     - thus requires the prefix and suffix information to check adjacency (to detect and avoid regex backtracking problems)
 // to compare, the non-advanced regex (aka simple regex) is constant-length wildcard, e.g.
-//     - a single digit
-//     - a single alphanumeric character (not implemented yet)
-//     - fixed length number (not implemented yet)
+//     - a single digit, \d
+//     - a single letter, \a, or any single character, \?
+//     - a single character from a range, e.g. \[0-5] or \[a-z]
+//     - any of the above repeated exact number of times, e.g. a fixed length number \d{4}
 //     - overall, guaranteed not to have zero-length matches
 export interface RegexMatcherInfo {
 	regexpSpec: RegExpSpec
@@ -413,22 +771,36 @@ export const convertPlainStringToFullMatchRegex = (s: string): RegexMatcherInfo
 export const convertPlainStringToRegex = (s: string, actAs: RegexpUsedAs): RegexMatcherInfo | null => {
 	const regexMatchesStart: boolean = [RegexpUsedAs.Prefix, RegexpUsedAs.FullMatch].includes(actAs)
 	const regexMatchesEnding: boolean = [RegexpUsedAs.Suffix, RegexpUsedAs.FullMatch].includes(actAs)
-	const detectedSymbol: string | null = extractNumericSortingSymbol(s)
-	if (detectedSymbol) {
-		const replacement: RegExpSpecStr = numericSortingSymbolToRegexpStr[detectedSymbol.toLowerCase()]
-		const [extractedPrefix, extractedSuffix] = s!.split(detectedSymbol)
+	const detectedSymbols: Array<string> = extractNumericSortingSymbols(s)
+	if (detectedSymbols.length > 0) {
+		const replacements: Array<RegExpSpecStr> = detectedSymbols.map((symbol) => numericSortingSymbolToRegexpStr[symbol.toLowerCase()])
+		// The text fragments before, between and after the numeric sorting symbols
+		const fragments: Array<string> = []
+		let remainder: string = s
+		for (let symbol of detectedSymbols) {
+			const idx: number = remainder.indexOf(symbol)
+			fragments.push(remainder.substring(0, idx))
+			remainder = remainder.substring(idx + symbol.length)
+		}
+		fragments.push(remainder)
 		const regexPrefix: string = regexMatchesStart ? '^' : ''
 		const regexSuffix: string = regexMatchesEnding ? '$' : ''
-		const escapedProcessedPrefix: string = convertInlineRegexSymbolsAndEscapeTheRest(extractedPrefix)
-		const escapedProcessedSuffix: string = convertInlineRegexSymbolsAndEscapeTheRest(extractedSuffix)
+		const regexBody: string = fragments.map((fragment, idx) =>
+			convertInlineRegexSymbolsAndEscapeTheRest(fragment) + (replacements[idx]?.regexpStr ?? '')
+		).join('')
+		const regexpSpec: RegExpSpec = {
+			regex: new RegExp(`${regexPrefix}${regexBody}${regexSuffix}`, 'i')
+		}
+		if (replacements.length > 1) {
+			regexpSpec.normalizerFns = replacements.map((replacement) => replacement.normalizerFn)
+		} else {
+			regexpSpec.normalizerFn = replacements[0].normalizerFn
+		}
 		return {
-			regexpSpec: {
-				regex: new RegExp(`${regexPrefix}${escapedProcessedPrefix}${replacement.regexpStr}${escapedProcessedSuffix}${regexSuffix}`, 'i'),
-				normalizerFn: replacement.normalizerFn
-			},
-			prefix: extractedPrefix,
-			suffix: extractedSuffix,
-			containsAdvancedRegex: replacement.advancedRegexType
+			regexpSpec: regexpSpec,
+			prefix: fragments[0],
+			suffix: last(fragments)!,
+			containsAdvancedRegex: replacements[0].advancedRegexType
 		}
 	} else if (detectInlineRegex(s)) {
 		const replacement: RegexAsString = convertInlineRegexSymbolsAndEscapeTheRest(s)!
@@ -455,37 +827,24 @@ export const convertInlineRegexSymbolsAndEscapeTheRest = (s: string): RegexAsStr
 	}
 
 	let regexAsString: Array<string> = []
+	let charsConsumed: number = 0
 
-	while (s!.length > 0) {
-		// detect the first inline regex
-		let earliestRegexSymbolIdx: number | undefined = undefined
-		let earliestRegexSymbol: string | undefined = undefined
-		for (let inlineRegexSymbol of Object.keys(inlineRegexSymbolsToRegexExpressionsArr)) {
-			const index: number = s!.indexOf(inlineRegexSymbol)
-			if (index >= 0) {
-				if (earliestRegexSymbolIdx !== undefined) {
-					if (index < earliestRegexSymbolIdx) {
-						earliestRegexSymbolIdx = index
-						earliestRegexSymbol = inlineRegexSymbol
-					}
-				} else {
-					earliestRegexSymbolIdx = index
-					earliestRegexSymbol = inlineRegexSymbol
-				}
-			}
-		}
-		if (earliestRegexSymbolIdx !== undefined) {
-			if (earliestRegexSymbolIdx > 0) {
-				const charsBeforeRegexSymbol: string = s!.substring(0, earliestRegexSymbolIdx)
-				regexAsString.push(escapeRegexUnsafeCharacters(charsBeforeRegexSymbol))
-				s = s!.substring(earliestRegexSymbolIdx)
-			}
-			regexAsString.push(inlineRegexSymbolsToRegexExpressionsArr[earliestRegexSymbol!])
-			s = s!.substring(earliestRegexSymbol!.length)
-		} else {
-			regexAsString.push(escapeRegexUnsafeCharacters(s))
-			s = ''
+	inlineRegexSymbolsDetectionRegex.lastIndex = 0
+	let inlineRegex: RegExpExecArray | null
+	while ((inlineRegex = inlineRegexSymbolsDetectionRegex.exec(s)) !== null) {
+		if (inlineRegex.index > charsConsumed) {
+			const charsBeforeRegexSymbol: string = s.substring(charsConsumed, inlineRegex.index)
+			regexAsString.push(escapeRegexUnsafeCharacters(charsBeforeRegexSymbol))
 		}
+		const repetitionIdx: number = inlineRegex[0].indexOf('{')
+		const regexSymbol: string = repetitionIdx > 0 ? inlineRegex[0].substring(0, repetitionIdx) : inlineRegex[0]
+		const repetition: string = repetitionIdx > 0 ? inlineRegex[0].substring(repetitionIdx) : ''
+		// The character range is a regex character class as-is, only without the leading backslash
+		regexAsString.push((inlineRegexSymbolsToRegexExpressionsArr[regexSymbol] ?? regexSymbol.substring(1)) + repetition)
+		charsConsumed = inlineRegex.index + inlineRegex[0].length
+	}
+	if (charsConsumed < s.length) {
+		regexAsString.push(escapeRegexUnsafeCharacters(s.substring(charsConsumed)))
 	}
 
 	return regexAsString.join('')
@@ -500,6 +859,82 @@ export interface SortSpecsCollection {
 	sortSpecByWildcard?: FolderWildcardMatching<CustomSortSpec>
 }
 
+// A name of a file with the extension matches as well, e.g. 'diagram.png' next to the note 'diagram.png.md'
+const createExactNameOrSuffixGroup = (type: CustomSortGroupType.ExactName | CustomSortGroupType.ExactSuffix, text: string): CustomSortGroup => {
+	const createGroup = (matchFilenameWithExt?: boolean): CustomSortGroup => (type === CustomSortGroupType.ExactName ?
+		{type: type, exactText: text, matchFilenameWithExt: matchFilenameWithExt}
+		:
+		{type: type, exactSuffix: text, matchFilenameWithExt: matchFilenameWithExt})
+	if (!text.includes('.')) {
+		return {...createGroup(), order: CustomSortOrder.alphabetical}
+	}
+	return {
+		type: CustomSortGroupType.Compound,
+		condition: {
+			operator: GroupConditionOperator.Or,
+			operands: [{group: createGroup()}, {group: createGroup(true)}]
+		},
+		order: CustomSortOrder.alphabetical
+	}
+}
+
+const createChildOrderGroup = (entry: string): CustomSortGroup => {
+	if (isThreeDots(entry)) {
+		return {type: CustomSortGroupType.MatchAll, order: CustomSortOrder.alphabetical}
+	} else if (entry.endsWith(ThreeDots)) {
+		return {type: CustomSortGroupType.ExactPrefix, exactPrefix: entry.substring(0, entry.length - ThreeDotsLength), order: CustomSortOrder.alphabetical}
+	} else if (entry.startsWith(ThreeDots)) {
+		return createExactNameOrSuffixGroup(CustomSortGroupType.ExactSuffix, entry.substring(ThreeDotsLength))
+	} else {
+		return createExactNameOrSuffixGroup(CustomSortGroupType.ExactName, entry)
+	}
+}
+
+// The explicit order of items of a folder, as listed in 'child-order:' of the folder note, e.g. [Intro, Setup, Chapter ...]
+// Each entry is the exact name of an item, taken literally. The only wildcard is the leading or trailing '...'
+// Returns null if the value is not a list of names
+export const convertChildOrderToSortingGroups = (childOrder: unknown): Array<CustomSortGroup> | null => {
+	const entries: Array<unknown> = Array.isArray(childOrder) ? childOrder : (typeof childOrder === 'string' ? childOrder.split('\n') : [])
+	const groups: Array<CustomSortGroup> = []
+	for (let entry of entries) {
+		if (typeof entry !== 'string' && typeof entry !== 'number') {
+			return null
+		}
+		const name: string = `${entry}`.trim()
+		if (name) {
+			groups.push(createChildOrderGroup(name))
+		}
+	}
+	return groups.length > 0 ? groups : null
+}
+
+// The groups of 'child-order:' go first, followed by the groups of the sorting spec applicable to the folder, if any.
+// Hence the items not listed fall into the groups of that spec, e.g. into its Outsiders group
+// The spec applicable to the folder can be shared with other folders (wildcards, multiple target folders), hence copied
+export const mergeChildOrderIntoSortSpecs = (collection: SortSpecsCollection | null | undefined, folderPath: string, childOrderGroups: Array<CustomSortGroup>): SortSpecsCollection => {
+	collection = collection ?? {sortSpecByPath: {}}
+	const spec: CustomSortSpec | null | undefined = collection.sortSpecByPath[folderPath] ?? collection.sortSpecByWildcard?.folderMatch(folderPath)
+	const shift: number = childOrderGroups.length
+	const shiftIdx = (idx: number | undefined): number | undefined => idx !== undefined ? idx + shift : undefined
+	collection.sortSpecByPath[folderPath] = spec ? {
+		...spec,
+		targetFoldersPaths: [folderPath],
+		groups: [
+			...childOrderGroups,
+			...spec.groups.map((group: CustomSortGroup) => group.combineWithIdx !== undefined ? {...group, combineWithIdx: group.combineWithIdx + shift} : group)
+		],
+		outsidersGroupIdx: shiftIdx(spec.outsidersGroupIdx),
+		outsidersFilesGroupIdx: shiftIdx(spec.outsidersFilesGroupIdx),
+		outsidersFoldersGroupIdx: shiftIdx(spec.outsidersFoldersGroupIdx),
+		priorityOrder: spec.priorityOrder ? [...childOrderGroups.keys(), ...spec.priorityOrder.map((idx: number) => idx + shift)] : undefined
+	} : {
+		targetFoldersPaths: [folderPath],
+		groups: [...childOrderGroups, {type: CustomSortGroupType.Outsiders, order: CustomSortOrder.alphabetical}],
+		outsidersGroupIdx: shift
+	}
+	return collection
+}
+
 interface AdjacencyInfo {
 	noPrefix: boolean,
 	noSuffix: boolean
@@ -787,6 +1222,11 @@ export class SortingSpecProcessor {
 				}
 				this.ctx.currentSpec.defaultOrder = (attr.value as RecognizedOrderValue).order
 				this.ctx.currentSpec.byMetadataField = (attr.value as RecognizedOrderValue).applyToMetadataField
+				this.ctx.currentSpec.byMetadataFieldType = (attr.value as RecognizedOrderValue).applyToMetadataFieldType
+				this.ctx.currentSpec.byMetadataFieldEnumeration = (attr.value as RecognizedOrderValue).applyToMetadataFieldEnumeration
+				this.ctx.currentSpec.byTitleSources = (attr.value as RecognizedOrderValue).applyToTitleSources
+				this.ctx.currentSpec.folderDatesDepth = (attr.value as RecognizedOrderValue).applyToFolderDatesDepth
+				this.ctx.currentSpec.defaultSecondaryOrders = (attr.value as RecognizedOrderValue).secondaryOrders
 				return true;
 			} else if (attr.nesting > 0) { // For now only distinguishing nested (indented) and not-nested (not-indented), the depth doesn't matter
 				if (!this.ctx.currentSpec || !this.ctx.currentSpecGroup) {
@@ -804,9 +1244,48 @@ export class SortingSpecProcessor {
 				}
 				this.ctx.currentSpecGroup.order = (attr.value as RecognizedOrderValue).order
 				this.ctx.currentSpecGroup.byMetadataField = (attr.value as RecognizedOrderValue).applyToMetadataField
-				this.ctx.currentSpecGroup.secondaryOrder = (attr.value as RecognizedOrderValue).secondaryOrder
+				this.ctx.currentSpecGroup.byMetadataFieldType = (attr.value as RecognizedOrderValue).applyToMetadataFieldType
+				this.ctx.currentSpecGroup.byMetadataFieldEnumeration = (attr.value as RecognizedOrderValue).applyToMetadataFieldEnumeration
+				this.ctx.currentSpecGroup.byTitleSources = (attr.value as RecognizedOrderValue).applyToTitleSources
+				this.ctx.currentSpecGroup.folderDatesDepth = (attr.value as RecognizedOrderValue).applyToFolderDatesDepth
+				this.ctx.currentSpecGroup.secondaryOrders = (attr.value as RecognizedOrderValue).secondaryOrders
 				return true;
 			}
+		} else if (attr.attribute === Attribute.Attachments) {
+			if (attr.nesting === 0) {
+				if (!this.ctx.currentSpec) {
+					this.ctx.currentSpec = this.putNewSpecForNewTargetFolder()
+				}
+				this.ctx.currentSpec.attachmentsNextToNotes = attr.value
+				return true
+			} else {
+				this.problem(ProblemCode.AttachmentsAttrOnlyAtFolderLevel, `The placement of attachments is only allowed at a folder level (not nested syntax)`)
+				return false
+			}
+		} else if (attr.attribute === Attribute.CreatedFrom || attr.attribute === Attribute.ModifiedFrom) {
+			const created: boolean = attr.attribute === Attribute.CreatedFrom
+			if (attr.nesting === 0) {
+				if (!this.ctx.currentSpec) {
+					this.ctx.currentSpec = this.putNewSpecForNewTargetFolder()
+				}
+				if (created) {
+					this.ctx.currentSpec.createdFromMetadataField = attr.value
+				} else {
+					this.ctx.currentSpec.modifiedFromMetadataField = attr.value
+				}
+				return true
+			} else {
+				if (!this.ctx.currentSpec || !this.ctx.currentSpecGroup) {
+					this.problem(ProblemCode.DanglingOrderAttr, `Nested (indented) attribute requires prior sorting group definition`)
+					return false
+				}
+				if (created) {
+					this.ctx.currentSpecGroup.createdFromMetadataField = attr.value
+				} else {
+					this.ctx.currentSpecGroup.modifiedFromMetadataField = attr.value
+				}
+				return true
+			}
 		}
 		return false;
 	}
@@ -833,19 +1312,6 @@ export class SortingSpecProcessor {
 	private parseSortingGroupSpec = (line: string): ParsedSortingGroup | null => {
 		let s: string = line.trim()
 
-		if (hasMoreThanOneNumericSortingSymbol(s)) {
-			this.problem(ProblemCode.TooManyNumericSortingSymbols, 'Maximum one numeric sorting indicator allowed per line')
-			return null
-		}
-
-		if (containsThreeDots(s)) {
-			const [prefix, suffix] = s.split(ThreeDots)
-			if (containsThreeDots(prefix) && containsThreeDots(suffix)) {
-				this.problem(ProblemCode.InlineRegexInPrefixAndSuffix, 'In current version, inline regex symbols are not allowed both in prefix and suffix.')
-				return null
-			}
-		}
-
 		let groupPriority: number | undefined = undefined
 		let groupPriorityPrefixesCount: number = 0
 		let combineGroup: boolean | undefined = undefined
@@ -907,6 +1373,25 @@ export class SortingSpecProcessor {
 			prefixRecognized = false
 		}
 
+		// A full regex is opaque to the plugin-specific syntax, e.g. it can legitimately contain \d+\d+
+		if (!isRegexpGroupSpec(s) && hasAdjacentNumericSortingSymbols(s)) {
+			this.problem(ProblemCode.NumericalSymbolAdjacentToNumericalSymbol, 'Numerical sorting symbols must not be directly adjacent to each other. An explicit separator is required between them.')
+			return null
+		}
+
+		if (!isRegexpGroupSpec(s)) {
+			const malformedCharRange: string | null = findMalformedCharRange(s)
+			if (malformedCharRange) {
+				this.problem(ProblemCode.MalformedInlineRegexSymbol, `Malformed character range "${malformedCharRange}". Expected a range of digits or letters in ascending order, like \\[0-5] or \\[a-z]`)
+				return null
+			}
+			const malformedRepetition: string | null = findMalformedRepetition(s)
+			if (malformedRepetition) {
+				this.problem(ProblemCode.MalformedInlineRegexSymbol, `Malformed repetition "${malformedRepetition}". Expected a positive repetition count, like \\d{4}`)
+				return null
+			}
+		}
+
 		if (groupPriorityPrefixesCount > 1) {
 			this.problem(ProblemCode.TooManyPriorityPrefixes, 'Only one priority prefix allowed on sorting group')
 			return null
@@ -995,7 +1480,11 @@ export class SortingSpecProcessor {
 		}
 
 		if (group.plainSpec) {
-			group.arraySpec = this.convertPlainStringSortingGroupSpecToArraySpec(group.plainSpec)
+			if (!group.itemToHide && isCompoundGroupSpec(group.plainSpec)) {
+				group.compoundSpec = group.plainSpec.trim()
+			} else {
+				group.arraySpec = this.convertPlainStringSortingGroupSpecToArraySpec(group.plainSpec)
+			}
 			delete group.plainSpec
 		}
 
@@ -1110,6 +1599,11 @@ export class SortingSpecProcessor {
 		if (anyCombinedGroupPresent) {
 			let orderForCombinedGroup: CustomSortOrder | undefined
 			let byMetadataFieldForCombinedGroup: string | undefined
+			let byMetadataFieldTypeForCombinedGroup: MetadataValueType | undefined
+			let byMetadataFieldEnumerationForCombinedGroup: MetadataValuesEnumeration | undefined
+			let byTitleSourcesForCombinedGroup: Array<TitleSource> | undefined
+			let folderDatesDepthForCombinedGroup: number | undefined
+			let secondaryOrdersForCombinedGroup: Array<SecondaryOrder> | undefined
 			let idxOfCurrentCombinedGroup: number | undefined = undefined
 			for (let i = spec.groups.length - 1; i >= 0; i--) {
 				const group: CustomSortGroup = spec.groups[i]
@@ -1118,16 +1612,31 @@ export class SortingSpecProcessor {
 					if (group.combineWithIdx === idxOfCurrentCombinedGroup) { // a subsequent (2nd, 3rd, ...) group of combined (counting from the end)
 						group.order = orderForCombinedGroup
 						group.byMetadataField = byMetadataFieldForCombinedGroup
+						group.byMetadataFieldType = byMetadataFieldTypeForCombinedGroup
+						group.byMetadataFieldEnumeration = byMetadataFieldEnumerationForCombinedGroup
+						group.byTitleSources = byTitleSourcesForCombinedGroup
+						group.folderDatesDepth = folderDatesDepthForCombinedGroup
+						group.secondaryOrders = secondaryOrdersForCombinedGroup
 					} else { // the first group of combined (counting from the end)
 						idxOfCurrentCombinedGroup = group.combineWithIdx
 						orderForCombinedGroup = group.order // could be undefined
 						byMetadataFieldForCombinedGroup = group.byMetadataField // could be undefined
+						byMetadataFieldTypeForCombinedGroup = group.byMetadataFieldType // could be undefined
+						byMetadataFieldEnumerationForCombinedGroup = group.byMetadataFieldEnumeration // could be undefined
+						byTitleSourcesForCombinedGroup = group.byTitleSources // could be undefined
+						folderDatesDepthForCombinedGroup = group.folderDatesDepth // could be undefined
+						secondaryOrdersForCombinedGroup = group.secondaryOrders // could be undefined
 					}
 				} else {
 					// for sanity
 					idxOfCurrentCombinedGroup = undefined
 					orderForCombinedGroup = undefined
 					byMetadataFieldForCombinedGroup = undefined
+					byMetadataFieldTypeForCombinedGroup = undefined
+					byMetadataFieldEnumerationForCombinedGroup = undefined
+					byTitleSourcesForCombinedGroup = undefined
+					folderDatesDepthForCombinedGroup = undefined
+					secondaryOrdersForCombinedGroup = undefined
 				}
 			}
 		}
@@ -1137,6 +1646,11 @@ export class SortingSpecProcessor {
 			if (!group.order) {
 				group.order = spec.defaultOrder ?? DEFAULT_SORT_ORDER
 				group.byMetadataField = spec.byMetadataField
+				group.byMetadataFieldType = spec.byMetadataFieldType
+				group.byMetadataFieldEnumeration = spec.byMetadataFieldEnumeration
+				group.byTitleSources = spec.byTitleSources
+				group.folderDatesDepth = spec.folderDatesDepth
+				group.secondaryOrders = spec.defaultSecondaryOrders
 			}
 		}
 
@@ -1183,11 +1697,47 @@ export class SortingSpecProcessor {
 		let metadataSpec: Partial<CustomSortOrderAscDescPair> = {}
 		let applyToMetadata: boolean = false
 
-		if (v.indexOf(OrderByMetadataLexeme) > 0) { // Intentionally > 0 -> not allow the metadata lexeme alone
+		const titleMatch: RegExpMatchArray | null = v.match(OrderByTitleRegex)
+		if (titleMatch) {
+			const titleSources: Array<TitleSource> | null | undefined = titleMatch[1] !== undefined ? parseTitleSources(titleMatch[1]) : undefined
+			if (titleSources === null) {
+				return null
+			}
+			return {asc: CustomSortOrder.byTitle, desc: CustomSortOrder.byTitleReverse, applyToTitleSources: titleSources}
+		}
+
+		const deepDatesMatch: RegExpMatchArray | null = v.match(OrderByDeepFolderDatesRegex)
+		if (deepDatesMatch) {
+			const depth: number = deepDatesMatch[1] !== undefined ? parseInt(deepDatesMatch[1], 10) : Infinity
+			if (!(depth > 0)) {
+				return null
+			}
+			return {...OrderLiterals[`advanced ${deepDatesMatch[2].toLowerCase()}`], applyToFolderDatesDepth: depth}
+		}
+
+		if (v.indexOf(OrderByMetadataLexeme) >= 0) {
 			const pieces: Array<string> = v.split(OrderByMetadataLexeme)
 			// there are at least two pieces by definition, prefix and suffix of the metadata lexeme
-			orderLiteral = pieces[0]?.trim()
+			// The metadata lexeme alone is a shorthand of 'a-z by-metadata:'
+			orderLiteral = pieces[0]?.trim() || 'a-z'
 			let metadataFieldName: string = pieces[1]?.trim()
+			const enumerationMatch: RegExpMatchArray | null = metadataFieldName?.match(MetadataValuesEnumerationRegex)
+			const typeMatch: RegExpMatchArray | null = enumerationMatch ? null : metadataFieldName?.match(MetadataValueTypeRegex)
+			if (enumerationMatch) {
+				const enumeration: MetadataValuesEnumeration | null = parseMetadataValuesEnumeration(enumerationMatch[2])
+				if (!enumeration) {
+					return null
+				}
+				metadataFieldName = enumerationMatch[1].trim()
+				metadataSpec.applyToMetadataFieldEnumeration = enumeration
+			} else if (typeMatch) {
+				const valueType: MetadataValueType | undefined = MetadataValueTypes[typeMatch[2].toLowerCase()]
+				if (!valueType) {
+					return null
+				}
+				metadataFieldName = typeMatch[1].trim()
+				metadataSpec.applyToMetadataFieldType = valueType
+			}
 			if (metadataFieldName) {
 				metadataSpec.applyToMetadataField = metadataFieldName
 			}
@@ -1203,35 +1753,75 @@ export class SortingSpecProcessor {
 				const trueAlphabetical: boolean = attr.asc === CustomSortOrder.trueAlphabetical || attr.desc === CustomSortOrder.trueAlphabeticalReverse
 
 				// Create adjusted copy
-				attr = {
-					...attr,
-					asc: trueAlphabetical ? CustomSortOrder.byMetadataFieldTrueAlphabetical : CustomSortOrder.byMetadataFieldAlphabetical,
-					desc: trueAlphabetical ? CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse : CustomSortOrder.byMetadataFieldAlphabeticalReverse
+				if (metadataSpec.applyToMetadataFieldEnumeration) {
+					attr = {
+						...attr,
+						asc: CustomSortOrder.byMetadataFieldEnumeration,
+						desc: CustomSortOrder.byMetadataFieldEnumerationReverse
+					}
+				} else {
+					attr = {
+						...attr,
+						asc: trueAlphabetical ? CustomSortOrder.byMetadataFieldTrueAlphabetical : CustomSortOrder.byMetadataFieldAlphabetical,
+						desc: trueAlphabetical ? CustomSortOrder.byMetadataFieldTrueAlphabeticalReverse : CustomSortOrder.byMetadataFieldAlphabeticalReverse
+					}
 				}
 			} else {    // For orders different from alphabetical (and reverse) a reference to metadata is not supported
 				metadataSpec.applyToMetadataField = undefined
+				metadataSpec.applyToMetadataFieldType = undefined
+				metadataSpec.applyToMetadataFieldEnumeration = undefined
 			}
 		}
 
 		return attr ? {...attr, ...metadataSpec} : null
 	}
 
+	// The value can be a comma-separated chain of orders, e.g. 'by-metadata: priority, modified desc, a-z'
+	// The direction of the first one is determined by the attribute (order-asc: or order-desc:),
+	// each subsequent one is ascending unless followed by 'desc'
+	private internalValidateOrdersChainAttrValue = (v: string, ascending: boolean): RecognizedOrderValue | null => {
+		const chain: Array<string> | null = splitOrdersChain(v)
+		if (!chain) {
+			return null
+		}
+		const [primary, ...secondaries]: Array<string> = chain
+		const recognized: CustomSortOrderAscDescPair | null = this.internalValidateOrderAttrValue(primary)
+		if (!recognized) {
+			return null
+		}
+		const secondaryOrders: Array<SecondaryOrder> = []
+		for (let secondary of secondaries) {
+			const [, orderLiteral, direction] = secondary.trim().match(SecondaryOrderDirectionRegex)!
+			const recognizedSecondary: CustomSortOrderAscDescPair | null = this.internalValidateOrderAttrValue(orderLiteral)
+			if (!recognizedSecondary) {
+				return null
+			}
+			secondaryOrders.push({
+				order: direction?.toLowerCase() === 'desc' ? recognizedSecondary.desc : recognizedSecondary.asc,
+				byMetadataField: recognizedSecondary.applyToMetadataField,
+				byMetadataFieldType: recognizedSecondary.applyToMetadataFieldType,
+				byMetadataFieldEnumeration: recognizedSecondary.applyToMetadataFieldEnumeration,
+				byTitleSources: recognizedSecondary.applyToTitleSources,
+				folderDatesDepth: recognizedSecondary.applyToFolderDatesDepth
+			})
+		}
+		return {
+			order: ascending ? recognized.asc : recognized.desc,
+			secondaryOrders: secondaryOrders.length > 0 ? secondaryOrders : undefined,
+			applyToMetadataField: recognized.applyToMetadataField,
+			applyToMetadataFieldType: recognized.applyToMetadataFieldType,
+			applyToMetadataFieldEnumeration: recognized.applyToMetadataFieldEnumeration,
+			applyToTitleSources: recognized.applyToTitleSources,
+			applyToFolderDatesDepth: recognized.applyToFolderDatesDepth
+		}
+	}
+
 	private validateOrderAscAttrValue = (v: string): RecognizedOrderValue | null => {
-		const recognized: CustomSortOrderAscDescPair | null = this.internalValidateOrderAttrValue(v)
-		return recognized ? {
-			order: recognized.asc,
-			secondaryOrder: recognized.secondary,
-			applyToMetadataField: recognized.applyToMetadataField
-		} : null;
+		return this.internalValidateOrdersChainAttrValue(v, true)
 	}
 
 	private validateOrderDescAttrValue = (v: string): RecognizedOrderValue | null => {
-		const recognized: CustomSortOrderAscDescPair | null = this.internalValidateOrderAttrValue(v)
-		return recognized ? {
-			order: recognized.desc,
-			secondaryOrder: recognized.secondary,
-			applyToMetadataField: recognized.applyToMetadataField
-		} : null;
+		return this.internalValidateOrdersChainAttrValue(v, false)
 	}
 
 	private validateSortingAttrValue = (v: string): RecognizedOrderValue | null => {
@@ -1242,11 +1832,24 @@ export class SortingSpecProcessor {
 		} : null;
 	}
 
+	private validateAttachmentsAttrValue = (v: string): boolean | null => {
+		// for now only a single fixed lexem
+		return v.trim().toLowerCase() === AttachmentsNextToNotesLexeme ? true : null
+	}
+
+	// Returns the name of metadata field
+	private validateDatesFromAttrValue = (v: string): string | null => {
+		return v.trim().match(DatesFromMetadataRegex)?.[1] ?? null
+	}
+
 	attrValueValidators: { [key in Attribute]: AttrValueValidatorFn } = {
 		[Attribute.TargetFolder]: this.validateTargetFolderAttrValue.bind(this),
 		[Attribute.OrderAsc]: this.validateOrderAscAttrValue.bind(this),
 		[Attribute.OrderDesc]: this.validateOrderDescAttrValue.bind(this),
-		[Attribute.OrderStandardObsidian]: this.validateSortingAttrValue.bind(this)
+		[Attribute.OrderStandardObsidian]: this.validateSortingAttrValue.bind(this),
+		[Attribute.Attachments]: this.validateAttachmentsAttrValue.bind(this),
+		[Attribute.CreatedFrom]: this.validateDatesFromAttrValue.bind(this),
+		[Attribute.ModifiedFrom]: this.validateDatesFromAttrValue.bind(this)
 	}
 
 	 convertPlainStringSortingGroupSpecToArraySpec = (spec: string): Array<string> => {
@@ -1254,6 +1857,10 @@ export class SortingSpecProcessor {
 		if (isThreeDots(spec)) {
 			return [ThreeDots]
 		}
+		if (isRegexpGroupSpec(spec) || spec.startsWith(MetadataFieldIndicatorLexeme) || spec.startsWith(TagIndicatorLexeme)) {
+			// The three dots inside a regex (or a condition on metadata value or a tag) are part of it, not a wildcard
+			return [spec]
+		}
 		if (spec.startsWith(ThreeDots)) {
 			return [ThreeDots, spec.substring(ThreeDotsLength)];
 		}
@@ -1319,6 +1926,17 @@ export class SortingSpecProcessor {
 			}               									    // theoretically could match the sorting of matched files
 		}
 
+		if (spec.compoundSpec) {
+			const condition: GroupCondition | null = this.parseCompoundGroupSpec(spec.compoundSpec, spec.matchFilenameWithExt)
+			return condition ? {
+				type: CustomSortGroupType.Compound,
+				condition: condition,
+				filesOnly: spec.filesOnly,
+				foldersOnly: spec.foldersOnly,
+				matchFilenameWithExt: spec.matchFilenameWithExt
+			} : null
+		}
+
 		if (spec.arraySpec?.length === 1) {
 			const theOnly: string = spec.arraySpec[0]
 			if (isThreeDots(theOnly)) {
@@ -1330,13 +1948,56 @@ export class SortingSpecProcessor {
 				}               									    // theoretically could match the sorting of matched files
 			} else {
 				if (theOnly.startsWith(MetadataFieldIndicatorLexeme)) {
-					const metadataFieldName: string | undefined = extractIdentifier(
-						theOnly.substring(MetadataFieldIndicatorLexeme.length),
+					const metadataSpec: string = theOnly.substring(MetadataFieldIndicatorLexeme.length).trim()
+					const conditionSpec: [string, MetadataValueCondition] | null | undefined = this.parseMetadataValueCondition(metadataSpec)
+					if (conditionSpec === null) {
+						return null
+					}
+					const metadataFieldName: string | undefined = conditionSpec ? conditionSpec[0] : extractIdentifier(
+						metadataSpec,
 						DEFAULT_METADATA_FIELD_FOR_SORTING
 					)
 					return {
 						type: CustomSortGroupType.HasMetadataField,
 						withMetadataFieldName: metadataFieldName,
+						withMetadataValueCondition: conditionSpec?.[1],
+						filesOnly: spec.filesOnly,
+						foldersOnly: spec.foldersOnly,
+						matchFilenameWithExt: spec.matchFilenameWithExt
+					}
+				} else if (theOnly.startsWith(TagIndicatorLexeme)) {
+					const tagSpec: string = theOnly.substring(TagIndicatorLexeme.length).trim()
+					const match: RegExpMatchArray | null = tagSpec.match(TagSpecRegex)
+					if (!match) {
+						this.problem(ProblemCode.InvalidTagInGroupSpec, `A single tag expected after "${TagIndicatorLexeme}", like #project/active or #project/...`)
+						return null
+					}
+					return {
+						type: CustomSortGroupType.HasTag,
+						withTag: match[1].toLowerCase(),
+						withNestedTags: match[2] ? true : undefined,
+						filesOnly: spec.filesOnly,
+						foldersOnly: spec.foldersOnly,
+						matchFilenameWithExt: spec.matchFilenameWithExt
+					}
+				} else if (theOnly.startsWith(ModifiedWithinIndicatorLexeme) || theOnly.startsWith(CreatedWithinIndicatorLexeme)) {
+					const modified: boolean = theOnly.startsWith(ModifiedWithinIndicatorLexeme)
+					const lexeme: string = modified ? ModifiedWithinIndicatorLexeme : CreatedWithinIndicatorLexeme
+					const match: RegExpMatchArray | null = theOnly.substring(lexeme.length).trim().match(TimeWindowSpecRegex)
+					if (!match || (match[1] && !(+match[1] > 0))) {
+						this.problem(ProblemCode.InvalidTimeWindowInGroupSpec, `A time window expected after "${lexeme}", like 12h, 7d, 2w or today`)
+						return null
+					}
+					const timeWindow: TimeWindow = match[3] ? {
+						date: modified ? TimeWindowDate.Modified : TimeWindowDate.Created,
+						today: true
+					} : {
+						date: modified ? TimeWindowDate.Modified : TimeWindowDate.Created,
+						durationMs: +match[1] * MillisecondsInTimeWindowUnit[match[2].toLowerCase()]
+					}
+					return {
+						type: CustomSortGroupType.TimeWindow,
+						withinTimeWindow: timeWindow,
 						filesOnly: spec.filesOnly,
 						foldersOnly: spec.foldersOnly,
 						matchFilenameWithExt: spec.matchFilenameWithExt
@@ -1348,6 +2009,28 @@ export class SortingSpecProcessor {
 						foldersOnly: spec.foldersOnly,
 						matchFilenameWithExt: spec.matchFilenameWithExt
 					}
+				} else if (theOnly.startsWith(BookmarkedItemsIndicatorLexeme)) {
+					const bookmarksGroup: string = theOnly.substring(BookmarkedItemsIndicatorLexeme.length).trim()
+					return {
+						type: CustomSortGroupType.Bookmarked,
+						withBookmarksGroup: bookmarksGroup ? bookmarksGroup.toLowerCase() : undefined,
+						filesOnly: spec.filesOnly,
+						foldersOnly: spec.foldersOnly,
+						matchFilenameWithExt: spec.matchFilenameWithExt
+					}
+				} else if (isRegexpGroupSpec(theOnly)) {
+					const regexpSpec: RegExpSpec | null = this.parseRegexpGroupSpec(theOnly.substring(RegexpGroupIndicatorLexeme.length))
+					if (regexpSpec) {
+						return {
+							type: CustomSortGroupType.Regexp,
+							regexPrefix: regexpSpec,
+							filesOnly: spec.filesOnly,
+							foldersOnly: spec.foldersOnly,
+							matchFilenameWithExt: spec.matchFilenameWithExt
+						}
+					} else {
+						return null
+					}
 				} else {
 					// For non-three dots single text line assume exact match group
 					return {
@@ -1411,6 +2094,112 @@ export class SortingSpecProcessor {
 		return null;
 	}
 
+	// The NOT binds the strongest, then AND, then OR. No parentheses
+	private parseCompoundGroupSpec = (spec: string, matchFilenameWithExt?: boolean): GroupCondition | null => {
+		const orOperands: Array<GroupCondition> = []
+		for (let orOperandSpec of spec.split(OrConditionLexeme)) {
+			const andOperands: Array<GroupCondition> = []
+			for (let andOperandSpec of orOperandSpec.split(AndConditionLexeme)) {
+				const operand: GroupCondition | null = this.parseGroupConditionOperand(andOperandSpec.trim(), matchFilenameWithExt)
+				if (!operand) {
+					return null
+				}
+				andOperands.push(operand)
+			}
+			orOperands.push(andOperands.length > 1 ? {operator: GroupConditionOperator.And, operands: andOperands} : andOperands[0])
+		}
+		return orOperands.length > 1 ? {operator: GroupConditionOperator.Or, operands: orOperands} : orOperands[0]
+	}
+
+	private parseGroupConditionOperand = (spec: string, matchFilenameWithExt?: boolean): GroupCondition | null => {
+		const criterionSpec: string = stripNotConditionLexeme(spec)
+		if (!criterionSpec) {
+			this.problem(ProblemCode.SyntaxErrorInGroupSpec, `Empty operand of "${AndConditionLexeme.trim()}", "${OrConditionLexeme.trim()}" or "${NotConditionLexeme.trim()}"`)
+			return null
+		}
+		const group: CustomSortGroup | null = this.consumeParsedSortingGroupSpec({
+			arraySpec: this.convertPlainStringSortingGroupSpecToArraySpec(criterionSpec),
+			matchFilenameWithExt: matchFilenameWithExt
+		})
+		if (!group || !this.adjustSortingGroupForNumericSortingSymbol(group)) {
+			return null
+		}
+		return criterionSpec !== spec ? {operator: GroupConditionOperator.Not, operands: [{group: group}]} : {group: group}
+	}
+
+	// Returns undefined if no condition on the value is specified (only the metadata field name)
+	// and null if the condition is specified incorrectly
+	private parseMetadataValueCondition = (spec: string): [string, MetadataValueCondition] | null | undefined => {
+		const listMatch: RegExpMatchArray | null = spec.match(MetadataValueListConditionRegex)
+		if (listMatch) {
+			const [, metadataFieldName, negation, valuesStr] = listMatch
+			const values: Array<string> = valuesStr.split(MetadataValueListSeparator).map((v) => v.trim())
+			if (values.some((v) => !v)) {
+				this.problem(ProblemCode.InvalidMetadataValueCondition, `Non-empty values separated by "${MetadataValueListSeparator}" expected in the list of metadata values`)
+				return null
+			}
+			return [metadataFieldName, {
+				operator: negation ? MetadataValueOperator.NotIn : MetadataValueOperator.In,
+				values: values
+			}]
+		}
+		const match: RegExpMatchArray | null = spec.match(MetadataValueConditionRegex)
+		if (!match) {
+			return undefined
+		}
+		const [, metadataFieldName, operatorStr, valueStr] = match
+		const operator: MetadataValueOperator = MetadataValueOperators[operatorStr]
+		const value: string = valueStr.trim()
+		if (!value) {
+			this.problem(ProblemCode.InvalidMetadataValueCondition, `Value expected after "${operatorStr}" in the condition on metadata "${metadataFieldName}"`)
+			return null
+		}
+		switch (operator) {
+			case MetadataValueOperator.Equal:
+			case MetadataValueOperator.NotEqual:
+				return [metadataFieldName, {operator: operator, values: [value]}]
+			case MetadataValueOperator.Matches:
+				try {
+					return [metadataFieldName, {operator: operator, regex: new RegExp(value)}]
+				} catch (e) {
+					this.problem(ProblemCode.InvalidMetadataValueCondition, (e as Error).message)
+					return null
+				}
+			default: {
+				const numericValue: number = Number(value)
+				if (isNaN(numericValue)) {
+					this.problem(ProblemCode.InvalidMetadataValueCondition, `Number expected after "${operatorStr}" in the condition on metadata "${metadataFieldName}"`)
+					return null
+				}
+				return [metadataFieldName, {operator: operator, number: numericValue}]
+			}
+		}
+	}
+
+	private parseRegexpGroupSpec = (spec: string): RegExpSpec | null => {
+		const match: RegExpMatchArray | null = spec.match(RegexpGroupSpecRegex)
+		const regexpStr: string | undefined = match?.[2]?.trim()
+		if (!match || !regexpStr) {
+			this.problem(ProblemCode.InvalidRegexInGroupSpec, `Regular expression expected after "${RegexpGroupIndicatorLexeme}"`)
+			return null
+		}
+		let regex: RegExp
+		try {
+			regex = new RegExp(regexpStr)
+		} catch (e) {
+			this.problem(ProblemCode.InvalidRegexInGroupSpec, (e as Error).message)
+			return null
+		}
+		// Trick: the alternative with empty string always matches, the length of result reveals the number of capture groups
+		const captureGroupsCount: number = new RegExp(`${regexpStr}|`).exec('')!.length - 1
+		const matchGroupIdx: number | undefined = match[1] ? parseInt(match[1], 10) : undefined
+		if (matchGroupIdx !== undefined && matchGroupIdx > captureGroupsCount) {
+			this.problem(ProblemCode.InvalidRegexInGroupSpec, `Capture group ${matchGroupIdx} requested, yet the regular expression contains only ${captureGroupsCount} capture group(s)`)
+			return null
+		}
+		return matchGroupIdx !== undefined ? {regex: regex, matchGroupIdx: matchGroupIdx} : {regex: regex}
+	}
+
 	// Returns true if no regex will be involved (hence no adjustment) or if correctly adjusted with regex
 	private adjustSortingGroupForRegexBasedMatchers = (group: CustomSortGroup): boolean => {
 		return this.adjustSortingGroupForNumericSortingSymbol(group)
@@ -0,0 +1,140 @@
+import {App, CachedMetadata, PluginManifest, TFile, TFolder} from 'obsidian';
+import CustomSortPlugin from './main';
+import {CustomSortGroupType, CustomSortOrder, CustomSortSpec} from './custom-sort/custom-sort-types';
+
+// The obsidian package provides the types only, the runtime is supplied by the app
+jest.mock('obsidian', () => {
+	class TAbstractFile {}
+	class TFile extends TAbstractFile {}
+	class TFolder extends TAbstractFile {}
+	return {
+		debounce: () => Object.assign(() => {}, {cancel: () => {}}),
+		Notice: class {},
+		Plugin: class {
+			app: unknown
+			manifest: unknown
+			constructor(app: unknown, manifest: unknown) {
+				this.app = app
+				this.manifest = manifest
+			}
+			async saveData() {}
+		},
+		PluginSettingTab: class {},
+		TAbstractFile: TAbstractFile,
+		TFile: TFile,
+		TFolder: TFolder,
+		Vault: {
+			recurseChildren: function recurseChildren(root: TFolder & { children: Array<TAbstractFile> }, cb: (file: TAbstractFile) => void) {
+				cb(root)
+				root.children.forEach((child: TAbstractFile) => child instanceof TFolder ? recurseChildren(child as TFolder & { children: Array<TAbstractFile> }, cb) : cb(child))
+			}
+		}
+	}
+})
+
+const mockTFolder = (path: string, parent: TFolder | null): TFolder => {
+	const folder: TFolder = Object.assign(Object.create(TFolder.prototype), {
+		path: path,
+		name: path.split('/').pop() || '/',
+		parent: parent,
+		children: []
+	})
+	parent?.children.push(folder)
+	return folder
+}
+
+const mockTFile = (name: string, parent: TFolder): TFile => {
+	const file: TFile = Object.assign(Object.create(TFile.prototype), {
+		path: parent.parent ? `${parent.path}/${name}.md` : `${name}.md`,
+		name: `${name}.md`,
+		basename: name,
+		extension: 'md',
+		parent: parent
+	})
+	parent.children.push(file)
+	return file
+}
+
+const createPlugin = (frontmatterByPath: { [path: string]: { [key: string]: unknown } }): CustomSortPlugin => {
+	const root: TFolder = mockTFolder('/', null)
+	const book: TFolder = mockTFolder('Book', root)
+	mockTFile('sortspec', root)
+	mockTFile('Book', book)
+	const app = {
+		vault: {
+			getRoot: () => root
+		},
+		metadataCache: {
+			getCache: (path: string): CachedMetadata | null => frontmatterByPath[path] ? {frontmatter: {...frontmatterByPath[path], position: {}}} as CachedMetadata : null
+		}
+	} as unknown as App
+	const plugin: CustomSortPlugin = new CustomSortPlugin(app, {} as PluginManifest)
+	plugin.settings = {
+		additionalSortspecFile: '',
+		suspended: false,
+		statusBarEntryEnabled: false,
+		notificationsEnabled: false,
+		openHistory: {}
+	}
+	return plugin
+}
+
+describe('readAndParseSortingSpec', () => {
+	it('should merge the child-order of the folder note into the sorting spec of the folder', () => {
+		// given
+		const plugin: CustomSortPlugin = createPlugin({
+			'Book/Book.md': {'sorting-spec': '> a-z\nArchive ...', 'child-order': ['% misc', 'starred:', 'Intro']}
+		})
+
+		// when
+		plugin.readAndParseSortingSpec()
+
+		// then
+		expect(plugin.settings.suspended).toBe(false)
+		const spec: CustomSortSpec | undefined = plugin.sortSpecCache?.sortSpecByPath['Book']
+		expect(spec?.groups.map((group) => group.exactText ?? group.exactPrefix ?? group.type)).toEqual([
+			'% misc',
+			'starred:',
+			'Intro',
+			'Archive ',
+			CustomSortGroupType.Outsiders
+		])
+		expect(spec?.outsidersGroupIdx).toBe(4)
+		expect(spec?.groups[4].order).toBe(CustomSortOrder.alphabeticalReverse)
+	})
+	it('should merge the child-order of the folder note into the sorting spec targeting the folder from elsewhere', () => {
+		// given
+		const plugin: CustomSortPlugin = createPlugin({
+			'sortspec.md': {'sorting-spec': 'target-folder: Book\nArchive ...'},
+			'Book/Book.md': {'child-order': ['Intro']}
+		})
+
+		// when
+		plugin.readAndParseSortingSpec()
+
+		// then
+		expect(plugin.settings.suspended).toBe(false)
+		expect(plugin.sortSpecCache?.sortSpecByPath['Book']?.groups.map((group) => group.exactText ?? group.exactPrefix ?? group.type)).toEqual([
+			'Intro',
+			'Archive ',
+			CustomSortGroupType.Outsiders
+		])
+	})
+	it('should create the sorting spec of the folder from the child-order alone', () => {
+		// given
+		const plugin: CustomSortPlugin = createPlugin({
+			'Book/Book.md': {'child-order': ['Intro', 'Setup']}
+		})
+
+		// when
+		plugin.readAndParseSortingSpec()
+
+		// then
+		expect(plugin.settings.suspended).toBe(false)
+		expect(plugin.sortSpecCache?.sortSpecByPath['Book']?.groups.map((group) => group.exactText ?? group.type)).toEqual([
+			'Intro',
+			'Setup',
+			CustomSortGroupType.Outsiders
+		])
+	})
+})
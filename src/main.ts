@@ -1,6 +1,8 @@
 import {
 	App,
+	debounce,
 	FileExplorerView,
+	FrontMatterCache,
 	MetadataCache,
 	Notice,
 	normalizePath,
@@ -14,9 +16,20 @@ import {
 	Vault
 } from 'obsidian';
 import {around} from 'monkey-around';
-import {folderSort} from './custom-sort/custom-sort';
-import {SortingSpecProcessor, SortSpecsCollection} from './custom-sort/sorting-spec-processor';
-import {CustomSortOrder, CustomSortSpec} from './custom-sort/custom-sort-types';
+import {
+	folderSort,
+	invalidateFolderDatesCache,
+	sortingSpecNeedsOpenHistory,
+	sortingSpecUsesMetadataDates
+} from './custom-sort/custom-sort';
+import {
+	convertChildOrderToSortingGroups,
+	mergeChildOrderIntoSortSpecs,
+	SortingSpecProcessor,
+	SortSpecsCollection
+} from './custom-sort/sorting-spec-processor';
+import {CustomSortGroup, CustomSortOrder, CustomSortSpec, OpenHistory} from './custom-sort/custom-sort-types';
+import {deleteFromOpenHistory, recordFileOpen, renameInOpenHistory} from './custom-sort/open-history';
 
 import {
 	addIcons,
@@ -32,20 +45,31 @@ interface CustomSortPluginSettings {
 	suspended: boolean
 	statusBarEntryEnabled: boolean
 	notificationsEnabled: boolean
+	openHistory: OpenHistory   // for 'recently opened' and 'frequently opened' orders, by path
 }
 
 const DEFAULT_SETTINGS: CustomSortPluginSettings = {
 	additionalSortspecFile: '',
 	suspended: true,  // if false by default, it would be hard to handle the auto-parse after plugin install
 	statusBarEntryEnabled: true,
-	notificationsEnabled: true
+	notificationsEnabled: true,
+	openHistory: {}
 }
 
 const SORTSPEC_FILE_NAME: string = 'sortspec.md'
 const SORTINGSPEC_YAML_KEY: string = 'sorting-spec'
+const CHILDORDER_YAML_KEY: string = 'child-order'
 
 const ERROR_NOTICE_TIMEOUT: number = 10000
 
+// Opening files is frequent, the history of openings is persisted at most once per this delay
+const OPEN_HISTORY_SAVE_DELAY: number = 10000
+
+// The longest delay supported by setTimeout(), longer time windows are handled in steps
+const MAX_TIMEOUT: number = 2147483647
+// A safety margin for re-sorting after the boundary of a time window passes
+const TIME_WINDOW_BOUNDARY_MARGIN: number = 1000
+
 // the monkey-around package doesn't export the below type
 type MonkeyAroundUninstaller = () => void
 
@@ -56,10 +80,16 @@ export default class CustomSortPlugin extends Plugin {
 	ribbonIconStateInaccurate: boolean
 
 	sortSpecCache?: SortSpecsCollection | null
+	openHistoryNeeded: boolean      // any of the sorting specs uses the 'recently opened' or 'frequently opened' order
+	metadataDatesUsed: boolean      // any of the sorting specs takes the dates of files from the metadata
+	openHistoryUnsaved: boolean     // the history of opening files changed since the last save
 	initialAutoOrManualSortingTriggered: boolean
 
 	fileExplorerFolderPatched: boolean
 
+	timeWindowBoundary?: number
+	timeWindowBoundaryTimer?: number
+
 	showNotice(message: string, timeout?: number) {
 		if (this.settings.notificationsEnabled) {
 			new Notice(message, timeout)
@@ -73,7 +103,11 @@ export default class CustomSortPlugin extends Plugin {
 		let errorMessage: string | null = null
 		// reset cache
 		this.sortSpecCache = null
+		this.openHistoryNeeded = false
+		this.metadataDatesUsed = false
 		const processor: SortingSpecProcessor = new SortingSpecProcessor()
+		// The child orders are merged into the sorting specs of their folders, once all specs are known
+		const childOrderGroupsByFolderPath: Map<string, Array<CustomSortGroup>> = new Map()
 
 		Vault.recurseChildren(this.app.vault.getRoot(), (file: TAbstractFile) => {
 			if (failed) return
@@ -93,7 +127,8 @@ export default class CustomSortPlugin extends Plugin {
 					aFile.path === this.settings.additionalSortspecFile ||
 					aFile.path === `${this.settings.additionalSortspecFile}.md`
 				) {
-					const sortingSpecTxt: string = mCache.getCache(aFile.path)?.frontmatter?.[SORTINGSPEC_YAML_KEY]
+					const frontmatter: FrontMatterCache | undefined = mCache.getCache(aFile.path)?.frontmatter
+					const sortingSpecTxt: string = frontmatter?.[SORTINGSPEC_YAML_KEY]
 					if (sortingSpecTxt) {
 						anySortingSpecFound = true
 						this.sortSpecCache = processor.parseSortSpecFromText(
@@ -107,11 +142,32 @@ export default class CustomSortPlugin extends Plugin {
 							errorMessage = processor.recentErrorMessage ?? ''
 						}
 					}
+					// Additionally, the folder note can explicitly list its sibling items in the desired order
+					const childOrder: unknown = frontmatter?.[CHILDORDER_YAML_KEY]
+					if (childOrder && !failed && aFile.basename === parent.name) {
+						anySortingSpecFound = true
+						const childOrderGroups: Array<CustomSortGroup> | null = convertChildOrderToSortingGroups(childOrder)
+						if (childOrderGroups) {
+							childOrderGroupsByFolderPath.set(parent.path, childOrderGroups)
+						} else {
+							this.sortSpecCache = null
+							failed = true
+							errorMessage = `Invalid '${CHILDORDER_YAML_KEY}:' in ${aFile.path}, a list of names of items expected`
+						}
+					}
 				}
 			}
 		})
 
+		if (!failed) {
+			childOrderGroupsByFolderPath.forEach((childOrderGroups: Array<CustomSortGroup>, folderPath: string) => {
+				this.sortSpecCache = mergeChildOrderIntoSortSpecs(this.sortSpecCache, folderPath, childOrderGroups)
+			})
+		}
+
 		if (this.sortSpecCache) {
+			this.openHistoryNeeded = this.anySortingSpec(sortingSpecNeedsOpenHistory)
+			this.metadataDatesUsed = this.anySortingSpec(sortingSpecUsesMetadataDates)
 			this.showNotice(`Parsing custom sorting specification SUCCEEDED!`)
 		} else {
 			if (anySortingSpecFound) {
@@ -125,6 +181,14 @@ export default class CustomSortPlugin extends Plugin {
 		}
 	}
 
+	// Checks all the parsed sorting specs, including the wildcard ones shadowed by more specific ones
+	anySortingSpec(predicate: (spec: CustomSortSpec) => boolean): boolean {
+		return !!this.sortSpecCache && (
+			Object.values(this.sortSpecCache.sortSpecByPath).some(predicate)
+			|| !!this.sortSpecCache.sortSpecByWildcard?.someRule(predicate)
+		)
+	}
+
 	checkFileExplorerIsAvailableAndPatchable(logWarning: boolean = true): FileExplorerView | undefined {
 		let fileExplorerView: FileExplorerView | undefined = this.getFileExplorer()
 		if (fileExplorerView
@@ -164,6 +228,8 @@ export default class CustomSortPlugin extends Plugin {
 		if (this.settings.suspended) {
 			this.showNotice('Custom sort OFF');
 			this.sortSpecCache = null
+			this.openHistoryNeeded = false
+			this.metadataDatesUsed = false
 			iconToSet = ICON_SORT_SUSPENDED
 		} else {
 			this.readAndParseSortingSpec();
@@ -269,6 +335,54 @@ export default class CustomSortPlugin extends Plugin {
 				}
 			})
 		);
+		// The dates of folders aggregated from subfolders are cached, any change in the subtree makes them outdated
+		this.registerEvent(
+			this.app.vault.on("create", (file: TAbstractFile) => {
+				invalidateFolderDatesCache(file.path)
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", (file: TAbstractFile) => {
+				invalidateFolderDatesCache(file.path)
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file: TAbstractFile) => {
+				invalidateFolderDatesCache(file.path)
+				if (deleteFromOpenHistory(this.settings.openHistory, file.path)) {
+					this.saveOpenHistory()
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+				invalidateFolderDatesCache(oldPath)
+				invalidateFolderDatesCache(file.path)
+				if (renameInOpenHistory(this.settings.openHistory, oldPath, file.path)) {
+					this.saveOpenHistory()
+				}
+			})
+		);
+		// The dates taken from the metadata change along with the frontmatter, not necessarily along with the file
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file: TFile) => {
+				if (this.metadataDatesUsed) {
+					invalidateFolderDatesCache(file.path)
+				}
+			})
+		);
+		// The history of opening files, for the 'recently opened' and 'frequently opened' orders
+		this.registerEvent(
+			this.app.workspace.on("file-open", (file: TFile | null) => {
+				if (file && this.openHistoryNeeded) {
+					recordFileOpen(this.settings.openHistory, file.path, Date.now())
+					this.saveOpenHistory()
+					if (!this.settings.suspended) {
+						this.getFileExplorer()?.requestSort()
+					}
+				}
+			})
+		);
 	}
 
 	registerCommands() {
@@ -334,7 +448,10 @@ export default class CustomSortPlugin extends Plugin {
 						}
 						if (sortSpec) {
 							sortSpec.plugin = plugin
-							return folderSort.call(this, sortSpec, ...args);
+							sortSpec._openHistory = plugin.settings.openHistory
+							const result = folderSort.call(this, sortSpec, ...args);
+							plugin.scheduleSortOnTimeWindowBoundary(sortSpec._nextTimeWindowBoundary)
+							return result
 						} else {
 							return old.call(this, ...args);
 						}
@@ -348,6 +465,30 @@ export default class CustomSortPlugin extends Plugin {
 		}
 	}
 
+	// Re-sort when an item leaves its 'modified-within:' or 'created-within:' group. Only the earliest moment is tracked
+	scheduleSortOnTimeWindowBoundary(boundary?: number) {
+		if (boundary === undefined || (this.timeWindowBoundary !== undefined && this.timeWindowBoundary <= boundary)) {
+			return
+		}
+		this.clearTimeWindowBoundaryTimer()
+		this.timeWindowBoundary = boundary
+		this.timeWindowBoundaryTimer = window.setTimeout(() => {
+			this.timeWindowBoundary = undefined
+			this.timeWindowBoundaryTimer = undefined
+			if (!this.settings.suspended) {
+				this.getFileExplorer()?.requestSort()
+			}
+		}, Math.min(Math.max(boundary - Date.now(), 0) + TIME_WINDOW_BOUNDARY_MARGIN, MAX_TIMEOUT))
+	}
+
+	clearTimeWindowBoundaryTimer() {
+		if (this.timeWindowBoundaryTimer !== undefined) {
+			window.clearTimeout(this.timeWindowBoundaryTimer)
+		}
+		this.timeWindowBoundary = undefined
+		this.timeWindowBoundaryTimer = undefined
+	}
+
 	// Credits go to https://github.com/nothingislost/obsidian-bartender
 	getFileExplorer(): FileExplorerView | undefined {
 		let fileExplorer: FileExplorerView | undefined = this.app.workspace.getLeavesOfType("file-explorer")?.first()
@@ -356,7 +497,13 @@ export default class CustomSortPlugin extends Plugin {
 	}
 
 	onunload() {
-
+		this.clearTimeWindowBoundaryTimer()
+		invalidateFolderDatesCache()
+		// Persist the most recent changes of the history of opening files, if not saved yet
+		this.saveOpenHistoryDebounced.cancel()
+		if (this.openHistoryUnsaved) {
+			this.flushOpenHistory()
+		}
 	}
 
 	updateStatusBar() {
@@ -367,6 +514,25 @@ export default class CustomSortPlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Not to share (and modify) the default object
+		this.settings.openHistory = {...this.settings.openHistory}
+	}
+
+	saveOpenHistory() {
+		this.openHistoryUnsaved = true
+		this.saveOpenHistoryDebounced()
+	}
+
+	saveOpenHistoryDebounced = debounce(() => {
+		this.flushOpenHistory()
+	}, OPEN_HISTORY_SAVE_DELAY, false)
+
+	flushOpenHistory() {
+		this.openHistoryUnsaved = false
+		this.saveSettings().catch((e: Error) => {
+			this.openHistoryUnsaved = true
+			console.error(`custom-sort: failed to save the history of opening files: ${e.message}`)
+		})
 	}
 
 	async saveSettings() {
@@ -0,0 +1,19 @@
+import {PluginInstance} from "obsidian";
+
+export const BookmarksPlugin_items_collectionName = 'items'
+
+export const BookmarkedFileType = 'file'
+export const BookmarkedFolderType = 'folder'
+export const BookmarksGroupType = 'group'
+
+// Other types of bookmarks (e.g. search, heading, graph) exist as well, irrelevant to sorting
+export interface Bookmarks_BookmarkItem {
+    type: string
+    path?: string    // for a file or a folder
+    title?: string   // for a group
+    items?: Array<Bookmarks_BookmarkItem>  // for a group
+}
+
+export interface Bookmarks_PluginInstance extends PluginInstance {
+    [BookmarksPlugin_items_collectionName]: Array<Bookmarks_BookmarkItem>
+}